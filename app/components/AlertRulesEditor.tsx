@@ -0,0 +1,375 @@
+/**
+ * AlertRulesEditor.tsx
+ *
+ * Modal for managing the alert rules of a tracked portfolio: thresholds on
+ * z-score, drawdown and validity score, or a regime transition, each with
+ * its own severity. Drafts are validated client-side (lib/alertRules.ts)
+ * before they are sent.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useAlertRules } from '../hooks/useDatabase';
+import type { Alert, AlertRule, ApiClient, Portfolio } from '../lib/api';
+import { SEVERITY_COLORS } from '../lib/alerts';
+import {
+  ALERT_RULE_TYPES,
+  AlertRuleDraft,
+  AlertRuleErrors,
+  AlertRuleType,
+  EMPTY_RULE_DRAFT,
+  describeAlertRule,
+  draftFromRule,
+  formatRegime,
+  validateAlertRule,
+} from '../lib/alertRules';
+import ApiErrorMessage from './ApiErrorMessage';
+
+interface AlertRulesEditorProps {
+  portfolio: Portfolio;
+  api: ApiClient;
+  /** Regimes seen in past analyses, offered as suggestions. */
+  knownRegimes: string[];
+  onClose: () => void;
+}
+
+const SEVERITIES: Alert['severity'][] = ['info', 'warning', 'critical'];
+
+export default function AlertRulesEditor({ portfolio, api, knownRegimes, onClose }: AlertRulesEditorProps) {
+  const { rules, loading, error: loadError, refetch, createRule, updateRule, deleteRule } = useAlertRules(api, portfolio.id);
+
+  const [draft, setDraft] = useState<AlertRuleDraft>(EMPTY_RULE_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<AlertRuleErrors>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<unknown>(null);
+
+  const updateDraft = (patch: Partial<AlertRuleDraft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setErrors({});
+  };
+
+  const resetForm = () => {
+    setDraft(EMPTY_RULE_DRAFT);
+    setEditingId(null);
+    setErrors({});
+  };
+
+  const handleEdit = (rule: AlertRule) => {
+    setDraft(draftFromRule(rule));
+    setEditingId(rule.id);
+    setErrors({});
+  };
+
+  const handleSubmit = async () => {
+    const result = validateAlertRule(draft, rules.filter(r => r.id !== editingId));
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setSaving(true);
+    setActionError(null);
+    try {
+      if (editingId) {
+        await updateRule(editingId, { condition: result.condition, severity: draft.severity });
+      } else {
+        await createRule({ condition: result.condition, severity: draft.severity, is_enabled: true });
+      }
+      resetForm();
+    } catch (e) {
+      setActionError(e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    setBusyId(rule.id);
+    setActionError(null);
+    try {
+      await updateRule(rule.id, { is_enabled: !rule.is_enabled });
+    } catch (e) {
+      setActionError(e);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete rule "${describeAlertRule(rule.condition)}"?`)) return;
+    setBusyId(rule.id);
+    setActionError(null);
+    try {
+      await deleteRule(rule.id);
+      if (editingId === rule.id) resetForm();
+    } catch (e) {
+      setActionError(e);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const typeInfo = ALERT_RULE_TYPES[draft.type];
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div style={styles.modal} onClick={e => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h3 style={{ color: '#fff', fontSize: 18, fontWeight: 600, margin: 0 }}>Alert Rules</h3>
+          <p style={{ color: '#666', fontSize: 13, margin: '4px 0 0' }}>{portfolio.name}</p>
+        </div>
+
+        {/* Existing rules */}
+        <div style={{ padding: '16px 24px', maxHeight: 280, overflowY: 'auto' }}>
+          {loading ? (
+            <div style={styles.empty}>Loading rules...</div>
+          ) : loadError ? (
+            <div style={{ ...styles.empty, color: '#e74c3c' }}>
+              {loadError}{' '}
+              <button onClick={refetch} style={styles.linkButton}>Retry</button>
+            </div>
+          ) : rules.length === 0 ? (
+            <div style={styles.empty}>No rules yet. Alerts for this portfolio use the default triggers.</div>
+          ) : (
+            rules.map(rule => (
+              <div
+                key={rule.id}
+                style={{
+                  ...styles.ruleRow,
+                  background: rule.id === editingId ? 'rgba(79, 195, 247, 0.1)' : 'transparent',
+                  opacity: rule.is_enabled ? 1 : 0.5,
+                }}
+              >
+                <span style={{ ...styles.severityDot, background: SEVERITY_COLORS[rule.severity] }} />
+                <div style={{ flex: 1 }}>
+                  <div style={{ color: '#fff', fontSize: 14, fontWeight: 500 }}>{describeAlertRule(rule.condition)}</div>
+                  <div style={{ color: SEVERITY_COLORS[rule.severity], fontSize: 11, fontWeight: 600, textTransform: 'uppercase' }}>
+                    {rule.severity}{!rule.is_enabled && ' · paused'}
+                  </div>
+                </div>
+                <button onClick={() => handleToggle(rule)} disabled={busyId === rule.id} style={styles.linkButton}>
+                  {rule.is_enabled ? 'Pause' : 'Resume'}
+                </button>
+                <button onClick={() => handleEdit(rule)} disabled={busyId === rule.id} style={styles.linkButton}>
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  disabled={busyId === rule.id}
+                  style={{ ...styles.linkButton, color: '#666' }}
+                  title="Delete rule"
+                >
+                  ✕
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Rule form */}
+        <div style={styles.form}>
+          <div style={styles.formTitle}>{editingId ? 'Edit rule' : 'Add rule'}</div>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+            <select
+              value={draft.type}
+              onChange={e => updateDraft({ type: e.target.value as AlertRuleType })}
+              style={{ ...styles.input, flex: '1 1 180px' }}
+            >
+              {(Object.keys(ALERT_RULE_TYPES) as AlertRuleType[]).map(t => (
+                <option key={t} value={t}>{ALERT_RULE_TYPES[t].label}</option>
+              ))}
+            </select>
+
+            {draft.type === 'regime_transition' ? (
+              <>
+                <Field error={errors.fromRegime}>
+                  <input
+                    value={draft.fromRegime}
+                    onChange={e => updateDraft({ fromRegime: e.target.value })}
+                    placeholder="From regime"
+                    list="alert-rule-regimes"
+                    style={styles.input}
+                  />
+                </Field>
+                <span style={{ color: '#666', paddingTop: 10 }}>→</span>
+                <Field error={errors.toRegime}>
+                  <input
+                    value={draft.toRegime}
+                    onChange={e => updateDraft({ toRegime: e.target.value })}
+                    placeholder="To regime"
+                    list="alert-rule-regimes"
+                    style={styles.input}
+                  />
+                </Field>
+                <datalist id="alert-rule-regimes">
+                  {knownRegimes.map(r => <option key={r} value={r}>{formatRegime(r)}</option>)}
+                </datalist>
+              </>
+            ) : (
+              <Field error={errors.threshold}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <input
+                    value={draft.threshold}
+                    onChange={e => updateDraft({ threshold: e.target.value })}
+                    inputMode="decimal"
+                    style={{ ...styles.input, width: 90, textAlign: 'right' }}
+                  />
+                  <span style={{ color: '#888', fontSize: 13 }}>{typeInfo.unit}</span>
+                </div>
+              </Field>
+            )}
+
+            <select
+              value={draft.severity}
+              onChange={e => updateDraft({ severity: e.target.value as Alert['severity'] })}
+              style={{ ...styles.input, flex: '0 0 120px', color: SEVERITY_COLORS[draft.severity] }}
+            >
+              {SEVERITIES.map(s => <option key={s} value={s}>{s.charAt(0).toUpperCase() + s.slice(1)}</option>)}
+            </select>
+          </div>
+          <div style={{ color: '#666', fontSize: 12, marginTop: 8 }}>{typeInfo.hint}</div>
+          {errors.rule && <div style={styles.fieldError}>{errors.rule}</div>}
+          {actionError !== null && (
+            <div style={{ marginTop: 12, color: '#e74c3c', fontSize: 13 }}>
+              <ApiErrorMessage error={actionError} fallback="Failed to save alert rule" />
+            </div>
+          )}
+        </div>
+
+        <div style={styles.footer}>
+          {editingId && (
+            <button onClick={resetForm} style={styles.secondaryButton}>Cancel edit</button>
+          )}
+          <button onClick={onClose} style={styles.secondaryButton}>Close</button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            style={{ ...styles.primaryButton, cursor: saving ? 'not-allowed' : 'pointer', opacity: saving ? 0.6 : 1 }}
+          >
+            {saving ? 'Saving...' : editingId ? 'Update Rule' : 'Add Rule'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Field({ error, children }: { error?: string; children: React.ReactNode }) {
+  return (
+    <div style={{ flex: '1 1 120px' }}>
+      {children}
+      {error && <div style={styles.fieldError}>{error}</div>}
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(0,0,0,0.7)',
+    zIndex: 100,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modal: {
+    background: 'linear-gradient(180deg, #1e2a3a 0%, #0f1419 100%)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    width: '100%',
+    maxWidth: 600,
+    overflow: 'hidden',
+  },
+  header: {
+    padding: '20px 24px',
+    borderBottom: '1px solid rgba(255,255,255,0.1)',
+  },
+  empty: {
+    padding: 20,
+    textAlign: 'center',
+    color: '#666',
+    fontSize: 13,
+  },
+  ruleRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 12,
+    padding: '10px 12px',
+    borderRadius: 8,
+    borderBottom: '1px solid rgba(255,255,255,0.05)',
+  },
+  severityDot: {
+    width: 8,
+    height: 8,
+    borderRadius: '50%',
+    flexShrink: 0,
+  },
+  form: {
+    padding: '16px 24px 20px',
+    borderTop: '1px solid rgba(255,255,255,0.1)',
+  },
+  formTitle: {
+    color: '#888',
+    fontSize: 12,
+    fontWeight: 500,
+    marginBottom: 10,
+    textTransform: 'uppercase',
+  },
+  input: {
+    width: '100%',
+    padding: '10px 12px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(0,0,0,0.2)',
+    color: '#fff',
+    fontSize: 14,
+    outline: 'none',
+  },
+  fieldError: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    color: '#4fc3f7',
+    fontSize: 13,
+    cursor: 'pointer',
+    padding: '4px 6px',
+  },
+  footer: {
+    padding: '16px 24px',
+    borderTop: '1px solid rgba(255,255,255,0.1)',
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  secondaryButton: {
+    padding: '10px 20px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'transparent',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+  primaryButton: {
+    padding: '10px 20px',
+    borderRadius: 8,
+    border: 'none',
+    background: 'linear-gradient(135deg, #00b894 0%, #00cec9 100%)',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 600,
+  },
+};
@@ -2,7 +2,7 @@
 
 import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import Image from "next/image";
-import { UserButton } from "@clerk/nextjs";
+import { OrganizationSwitcher, UserButton } from "@clerk/nextjs";
 
 // =============================================================================
 // DATABASE IMPORTS (from your hooks folder)
@@ -11,14 +11,79 @@ import {
   usePortfolios,
   useAnalyses,
   useAlerts,
+  useFxRates,
+  useLatestPrices,
   Position,
   Portfolio,
+  PortfolioVersion,
+  AnalysisSummary,
+  Alert,
 } from "../hooks/useDatabase";
+import { useAutoSaveSettings, useNotificationSettings } from "../hooks/useSettings";
+import { selectExpiredAnalyses } from "../lib/retention";
+import { formatCurrency, formatDate } from "../lib/format";
+import { sameHoldings } from "../lib/portfolioDiff";
+import {
+  DEFAULT_CURRENCY,
+  currencyOptions,
+  exposuresInBase,
+  normalizeCurrency,
+  rateToBase,
+} from "../lib/currency";
+import { Issue, runPreflight } from "../lib/preflight";
+import {
+  ANALYSIS_MODES,
+  ANALYSIS_MODE_LABELS,
+  AnalysisMode,
+  INAPPLICABLE_DIAGNOSTICS,
+  inferAnalysisMode,
+} from "../lib/analysisMode";
+import {
+  SIZING_MODES,
+  SIZING_MODE_LABELS,
+  SIZE_DECIMALS,
+  SizingContext,
+  SizingMode,
+  convertSize,
+  roundSize,
+  sizeOf,
+} from "../lib/sizing";
+import { collectFolders, parseTags } from "../lib/portfolioSearch";
+import {
+  invertAmounts,
+  scaleToGross,
+  scaleToNet,
+  toDollarNeutral,
+  toBetaNeutral,
+} from "../lib/portfolioOps";
+import {
+  ALERT_TYPE_LABELS,
+  SEVERITY_COLORS,
+  shouldNotify,
+  claimAlertNotification,
+  showAlertNotification,
+} from "../lib/alerts";
+
+// =============================================================================
+// API CLIENT
+// =============================================================================
+import {
+  createApiClient,
+  API_BASE,
+  ApiError,
+  AuthFetch,
+  describeApiError,
+  Candidate,
+  AnalyzeRequest,
+  AnalyzeResponse,
+  AnalysisResultSummary,
+  AnalysisValidity,
+} from "../lib/api";
 
 // =============================================================================
 // UPLOAD DATA COMPONENT
 // =============================================================================
-import UploadDataPanel from "./UploadDataPanel";
+import UploadDataPanel, { CustomAnalysisReport } from "./UploadDataPanel";
 
 // =============================================================================
 // VALIDITY DASHBOARD COMPONENT
@@ -26,45 +91,180 @@ import UploadDataPanel from "./UploadDataPanel";
 import ValidityDashboard from "./ValidityDashboard";
 
 // =============================================================================
-// TYPES
+// ERROR DISPLAY COMPONENT
 // =============================================================================
+import ApiErrorMessage from "./ApiErrorMessage";
 
-type Candidate = {
-  name: string;
-  provider: string;
-  provider_symbol: string;
-  type: string;
-  exchange?: string;
-  currency?: string;
-  confidence?: number;
-};
+// =============================================================================
+// SETTINGS COMPONENT
+// =============================================================================
+import SettingsPanel from "./SettingsPanel";
+
+// =============================================================================
+// ALERT RULES COMPONENT
+// =============================================================================
+import AlertRulesEditor from "./AlertRulesEditor";
+
+// =============================================================================
+// PORTFOLIO HISTORY COMPONENT
+// =============================================================================
+import PortfolioHistory from "./PortfolioHistory";
+
+// =============================================================================
+// PORTFOLIO PICKER COMPONENT
+// =============================================================================
+import PortfolioPicker from "./PortfolioPicker";
+
+// =============================================================================
+// PORTFOLIO ACTIONS COMPONENT
+// =============================================================================
+import PortfolioActions from "./PortfolioActions";
+
+// =============================================================================
+// INSTRUMENT SEARCH COMPONENT
+// =============================================================================
+import InstrumentSearch from "./InstrumentSearch";
+
+// =============================================================================
+// POSITION IMPORT COMPONENT
+// =============================================================================
+import PositionImport, { ImportMode } from "./PositionImport";
+import type { ImportedPosition } from "../lib/positionImport";
+
+// =============================================================================
+// PORTFOLIO EXPORT COMPONENT
+// =============================================================================
+import PortfolioExport, { EDITOR_SOURCE } from "./PortfolioExport";
+import { ExportRow, parseShareHash } from "../lib/portfolioExport";
+import { createTickerResolver } from "../lib/tickerResolver";
+
+// =============================================================================
+// WORKSPACES
+// =============================================================================
+import {
+  PERSONAL_WORKSPACE,
+  WORKSPACE_ROLE_LABELS,
+  Workspace,
+  WorkspacePermissions,
+  workspacePermissions,
+} from "../lib/workspace";
+
+// =============================================================================
+// MONITOR COMPONENT
+// =============================================================================
+import MonitorPanel from "./MonitorPanel";
+
+// =============================================================================
+// TYPES
+// =============================================================================
 
 type PositionRow = {
   id: string;
   query: string;
   resolvedSymbol: string | null;
+  /** Signed size in the portfolio's sizing mode: notional, shares or weight %. */
   amount: number;
+  /** ISO 4217 code a notional amount is in. */
+  currency: string;
   candidates: Candidate[];
+  /** The instrument the query resolved to, when picked from search results. */
+  instrument?: Candidate;
   loading: boolean;
   error: string | null;
 };
 
-type AuthFetch = (url: string, options?: RequestInit) => Promise<Response>;
-
 type AnalysisAppProps = {
   authFetch: AuthFetch;
+  /** Active workspace; portfolios, analyses and alerts are scoped to it. */
+  workspace?: Workspace;
+  /** Signed-in user; retention only prunes their own auto-saved runs. */
+  userId?: string | null;
+};
+
+// Snapshot of a finished /analyze run, so saving records what was actually
+// analyzed even if the editor has changed since.
+type CompletedRun = {
+  portfolioName: string;
+  portfolioId: string | null;
+  /** Saved version the rows matched when the run started, if any. */
+  portfolioVersion: number | null;
+  positions: Position[];
+  days: number;
+  summary: AnalysisResultSummary;
+  aiMemo: string | null;
+  durationMs: number;
 };
 
-// Tabs: Markets (analysis), Upload Data, History
-type TabId = 'analysis' | 'upload' | 'history';
+// Tabs: Markets (analysis), Upload Data, History, Monitor, Alerts, Settings
+type TabId = 'analysis' | 'upload' | 'history' | 'monitor' | 'alerts' | 'settings';
+
+function summarizeAnalysis(
+  data: AnalyzeResponse,
+  validity: AnalysisValidity | null,
+  asOfDate: string | null
+): AnalysisResultSummary {
+  return {
+    regime: data.regime,
+    signal: data.signal,
+    trend_score: data.trend_score,
+    z_score: data.z_score,
+    rsi: data.rsi,
+    cumulative_return: data.cumulative_return,
+    as_of_date: asOfDate,
+    validity,
+  };
+}
 
-const API_BASE =
-  process.env.NEXT_PUBLIC_API_BASE?.trim() || "http://localhost:8000";
+// Parallel /resolve lookups when importing a block of positions
+const IMPORT_CONCURRENCY = 6;
+// Pause after the last keystroke before a ticker input is looked up
+const RESOLVE_DEBOUNCE_MS = 400;
+
+// A picked instrument brings its trading currency, when the provider reports one
+function instrumentCurrency(c: Candidate): Partial<PositionRow> {
+  const currency = normalizeCurrency(c.currency);
+  return currency ? { currency } : {};
+}
 
 function uid() {
   return Math.random().toString(16).slice(2) + Date.now().toString(16);
 }
 
+// Positions saved without a currency are in the portfolio's base currency.
+// Other sizing modes restore the size as entered rather than its notional.
+function positionsToRows(positions: Position[], baseCurrency: string, sizingMode: SizingMode = 'notional'): PositionRow[] {
+  return positions.map((p) => ({
+    id: uid(),
+    query: p.ticker,
+    resolvedSymbol: p.ticker,
+    amount: sizingMode === 'notional' ? p.amount : p.size ?? 0,
+    currency: p.currency ?? baseCurrency,
+    candidates: [],
+    loading: false,
+    error: null,
+  }));
+}
+
+// =============================================================================
+// PREFLIGHT ISSUE LINE
+// =============================================================================
+
+const ISSUE_COLORS: Record<Issue['severity'], string> = {
+  error: '#e74c3c',
+  warning: '#f39c12',
+};
+
+function IssueLine({ issue }: { issue: Issue }) {
+  return (
+    <div style={{ display: 'flex', gap: 6, fontSize: 12, color: ISSUE_COLORS[issue.severity] }}>
+      <span role="img" aria-label={issue.severity === 'error' ? 'Error' : 'Warning'}>
+        {issue.severity === 'error' ? '✕' : '⚠'}
+      </span>
+      <span>{issue.message}</span>
+    </div>
+  );
+}
+
 // =============================================================================
 // SPINNER COMPONENT
 // =============================================================================
@@ -91,40 +291,11 @@ function Spinner({ size = 20 }: { size?: number }) {
   );
 }
 
-// =============================================================================
-// FORMAT HELPERS
-// =============================================================================
-
-function formatCurrency(value: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-}
-
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffMins = Math.floor(diffMs / 60000);
-  const diffHours = Math.floor(diffMs / 3600000);
-  const diffDays = Math.floor(diffMs / 86400000);
-
-  if (diffMins < 1) return 'Just now';
-  if (diffMins < 60) return `${diffMins}m ago`;
-  if (diffHours < 24) return `${diffHours}h ago`;
-  if (diffDays < 7) return `${diffDays}d ago`;
-  
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-}
-
 // =============================================================================
 // TOAST SYSTEM
 // =============================================================================
 
-type Toast = { id: string; type: 'success' | 'error' | 'info'; message: string };
+type Toast = { id: string; type: 'success' | 'error' | 'info'; message: string; error?: unknown };
 
 function ToastContainer({ toasts, onDismiss }: { toasts: Toast[]; onDismiss: (id: string) => void }) {
   return (
@@ -156,7 +327,11 @@ function ToastContainer({ toasts, onDismiss }: { toasts: Toast[]; onDismiss: (id
             animation: 'slideIn 0.3s ease',
           }}
         >
-          <span>{toast.message}</span>
+          {toast.error !== undefined ? (
+            <ApiErrorMessage error={toast.error} fallback={toast.message} />
+          ) : (
+            <span>{toast.message}</span>
+          )}
           <button
             onClick={() => onDismiss(toast.id)}
             style={{ background: 'none', border: 'none', color: '#fff', cursor: 'pointer', opacity: 0.7 }}
@@ -181,12 +356,40 @@ interface PortfolioToolbarProps {
   onLoad: (portfolio: Portfolio) => void;
   onSave: () => void;
   onDelete: (id: string) => Promise<void>;
+  onEditRules: (portfolio: Portfolio) => void;
+  onShowHistory: (portfolio: Portfolio) => void;
+  onSetDefault: (id: string, isDefault: boolean) => Promise<void>;
+  lastAnalyzed: Record<string, string>;
+  /** Extra toolbar controls rendered before the Save button. */
+  actions?: React.ReactNode;
   canSave: boolean;
+  permissions: WorkspacePermissions;
 }
 
-function PortfolioToolbar({ portfolios, loading, selectedId, onLoad, onSave, onDelete, canSave }: PortfolioToolbarProps) {
+function PortfolioToolbar({
+  portfolios,
+  loading,
+  selectedId,
+  onLoad,
+  onSave,
+  onDelete,
+  onEditRules,
+  onShowHistory,
+  onSetDefault,
+  lastAnalyzed,
+  actions,
+  canSave,
+  permissions,
+}: PortfolioToolbarProps) {
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const selected = portfolios.find(p => p.id === selectedId);
+
+  const closeDropdown = () => {
+    setDropdownOpen(false);
+    triggerRef.current?.focus();
+  };
 
   const handleDelete = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
@@ -204,7 +407,10 @@ function PortfolioToolbar({ portfolios, loading, selectedId, onLoad, onSave, onD
       {/* Load Dropdown */}
       <div style={{ position: 'relative' }}>
         <button
+          ref={triggerRef}
           onClick={() => setDropdownOpen(!dropdownOpen)}
+          aria-haspopup="listbox"
+          aria-expanded={dropdownOpen}
           style={{
             display: 'flex',
             alignItems: 'center',
@@ -224,7 +430,7 @@ function PortfolioToolbar({ portfolios, loading, selectedId, onLoad, onSave, onD
             <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z" />
           </svg>
           <span style={{ flex: 1, textAlign: 'left' }}>
-            {loading ? 'Loading...' : portfolios.find(p => p.id === selectedId)?.name || 'Load Portfolio'}
+            {loading ? 'Loading...' : selected?.name || 'Load Portfolio'}
           </span>
           <svg width="14" height="14" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
             <path d="M6 9l6 6 6-6" />
@@ -233,47 +439,50 @@ function PortfolioToolbar({ portfolios, loading, selectedId, onLoad, onSave, onD
 
         {dropdownOpen && (
           <>
-            <div style={{ position: 'fixed', inset: 0, zIndex: 40 }} onClick={() => setDropdownOpen(false)} />
-            <div style={{
-              position: 'absolute',
-              top: '100%',
-              left: 0,
-              right: 0,
-              marginTop: 4,
-              background: 'rgba(30, 42, 58, 0.98)',
-              border: '1px solid rgba(255,255,255,0.15)',
-              borderRadius: 10,
-              overflow: 'hidden',
-              zIndex: 50,
-              maxHeight: 300,
-              overflowY: 'auto',
-            }}>
-              {portfolios.length === 0 ? (
-                <div style={{ padding: 20, textAlign: 'center', color: '#666', fontSize: 13 }}>
-                  No saved portfolios
-                </div>
-              ) : (
-                portfolios.map(p => (
-                  <div
-                    key={p.id}
-                    onClick={() => { onLoad(p); setDropdownOpen(false); }}
+            <div style={{ position: 'fixed', inset: 0, zIndex: 40 }} onClick={closeDropdown} />
+            <PortfolioPicker
+              portfolios={portfolios}
+              selectedId={selectedId}
+              lastAnalyzed={lastAnalyzed}
+              onSelect={(p) => { onLoad(p); closeDropdown(); }}
+              onClose={closeDropdown}
+              renderActions={(p) => (
+                <>
+                  {permissions.canEdit && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onSetDefault(p.id, !p.is_default); }}
+                      title={p.is_default ? 'Remove as default' : 'Set as default'}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: p.is_default ? '#f39c12' : '#666',
+                        cursor: 'pointer',
+                        padding: 6,
+                        borderRadius: 6,
+                        fontSize: 14,
+                      }}
+                    >
+                      {p.is_default ? '★' : '☆'}
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setDropdownOpen(false); onShowHistory(p); }}
+                    title="Version history"
                     style={{
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'space-between',
-                      padding: '12px 16px',
+                      background: 'none',
+                      border: 'none',
+                      color: '#666',
                       cursor: 'pointer',
-                      borderBottom: '1px solid rgba(255,255,255,0.05)',
-                      background: p.id === selectedId ? 'rgba(79, 195, 247, 0.1)' : 'transparent',
+                      padding: 6,
+                      borderRadius: 6,
                     }}
                   >
-                    <div>
-                      <div style={{ color: '#fff', fontWeight: 500, fontSize: 14 }}>{p.name}</div>
-                      <div style={{ color: '#666', fontSize: 12, marginTop: 2 }}>
-                        {p.positions.length} position{p.positions.length !== 1 && 's'}
-                        {p.is_default && <span style={{ color: '#f39c12', marginLeft: 8 }}>★ Default</span>}
-                      </div>
-                    </div>
+                    <svg width="14" height="14" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+                      <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+                      <path d="M3 3v5h5M12 7v5l3 2" />
+                    </svg>
+                  </button>
+                  {permissions.canDelete && (
                     <button
                       onClick={(e) => handleDelete(e, p.id)}
                       disabled={deletingId === p.id}
@@ -288,40 +497,71 @@ function PortfolioToolbar({ portfolios, loading, selectedId, onLoad, onSave, onD
                     >
                       {deletingId === p.id ? <Spinner size={14} /> : '✕'}
                     </button>
-                  </div>
-                ))
+                  )}
+                </>
               )}
-            </div>
+            />
           </>
         )}
       </div>
 
+      {/* Alert Rules (tracked portfolios only) */}
+      {selected?.is_tracked && permissions.canEdit && (
+        <button
+          onClick={() => onEditRules(selected)}
+          title="Alert rules for this portfolio"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '10px 16px',
+            borderRadius: 10,
+            border: '1px solid rgba(255,255,255,0.15)',
+            background: 'rgba(255,255,255,0.05)',
+            color: '#fff',
+            fontSize: 14,
+            fontWeight: 500,
+            cursor: 'pointer',
+          }}
+        >
+          <svg width="16" height="16" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+            <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9" />
+            <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+          </svg>
+          Alert Rules
+        </button>
+      )}
+
+      {actions}
+
       {/* Save Button */}
-      <button
-        onClick={onSave}
-        disabled={!canSave}
-        style={{
-          display: 'flex',
-          alignItems: 'center',
-          gap: 8,
-          padding: '10px 16px',
-          borderRadius: 10,
-          border: 'none',
-          background: canSave ? 'linear-gradient(135deg, #4fc3f7 0%, #29b6f6 100%)' : 'rgba(255,255,255,0.1)',
-          color: '#fff',
-          fontSize: 14,
-          fontWeight: 600,
-          cursor: canSave ? 'pointer' : 'not-allowed',
-          opacity: canSave ? 1 : 0.5,
-        }}
-      >
-        <svg width="16" height="16" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-          <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
-          <polyline points="17 21 17 13 7 13 7 21" />
-          <polyline points="7 3 7 8 15 8" />
-        </svg>
-        Save Portfolio
-      </button>
+      {permissions.canEdit && (
+        <button
+          onClick={onSave}
+          disabled={!canSave}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '10px 16px',
+            borderRadius: 10,
+            border: 'none',
+            background: canSave ? 'linear-gradient(135deg, #4fc3f7 0%, #29b6f6 100%)' : 'rgba(255,255,255,0.1)',
+            color: '#fff',
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: canSave ? 'pointer' : 'not-allowed',
+            opacity: canSave ? 1 : 0.5,
+          }}
+        >
+          <svg width="16" height="16" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+            <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
+            <polyline points="17 21 17 13 7 13 7 21" />
+            <polyline points="7 3 7 8 15 8" />
+          </svg>
+          Save Portfolio
+        </button>
+      )}
     </div>
   );
 }
@@ -330,28 +570,68 @@ function PortfolioToolbar({ portfolios, loading, selectedId, onLoad, onSave, onD
 // SAVE PORTFOLIO MODAL
 // =============================================================================
 
+interface PortfolioFormValues {
+  name: string;
+  description: string;
+  is_default: boolean;
+  is_tracked: boolean;
+  folder: string | null;
+  tags: string[];
+}
+
+type SaveMode = 'update' | 'create';
+
 interface SaveModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (name: string, description: string) => Promise<void>;
+  onSave: (values: PortfolioFormValues, mode: SaveMode) => Promise<void>;
   defaultName: string;
+  /** The loaded portfolio, if any; enables "Update existing". */
+  existing: Portfolio | null;
+  /** Existing folder names, suggested in the folder field. */
+  folders: string[];
   positionCount: number;
 }
 
-function SavePortfolioModal({ isOpen, onClose, onSave, defaultName, positionCount }: SaveModalProps) {
+function SavePortfolioModal({ isOpen, onClose, onSave, defaultName, existing, folders, positionCount }: SaveModalProps) {
+  const [mode, setMode] = useState<SaveMode>('create');
   const [name, setName] = useState(defaultName);
   const [description, setDescription] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [isTracked, setIsTracked] = useState(true);
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
-    if (isOpen) setName(defaultName);
-  }, [isOpen, defaultName]);
+    if (!isOpen) return;
+    setMode(existing ? 'update' : 'create');
+    setName(defaultName);
+    setDescription(existing?.description ?? '');
+    setIsDefault(existing?.is_default ?? false);
+    setIsTracked(existing?.is_tracked ?? true);
+    setFolder(existing?.folder ?? '');
+    setTags((existing?.tags ?? []).join(', '));
+  }, [isOpen, defaultName, existing]);
+
+  const handleModeChange = (next: SaveMode) => {
+    setMode(next);
+    // A copy never inherits the default flag
+    setIsDefault(next === 'update' ? existing?.is_default ?? false : false);
+  };
 
   const handleSave = async () => {
     if (!name.trim()) return;
     setSaving(true);
     try {
-      await onSave(name.trim(), description.trim());
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        is_default: isDefault,
+        is_tracked: isTracked,
+        folder: folder.trim() || null,
+        tags: parseTags(tags),
+      }, mode);
       onClose();
     } finally {
       setSaving(false);
@@ -380,9 +660,40 @@ function SavePortfolioModal({ isOpen, onClose, onSave, defaultName, positionCoun
         overflow: 'hidden',
       }} onClick={e => e.stopPropagation()}>
         <div style={{ padding: '20px 24px', borderBottom: '1px solid rgba(255,255,255,0.1)' }}>
-          <h3 style={{ color: '#fff', fontSize: 18, fontWeight: 600, margin: 0 }}>Save Portfolio</h3>
+          <h3 style={{ color: '#fff', fontSize: 18, fontWeight: 600, margin: 0 }}>
+            {mode === 'update' ? 'Update Portfolio' : 'Save Portfolio'}
+          </h3>
         </div>
         <div style={{ padding: 24 }}>
+          {existing && (
+            <div style={{ display: 'flex', gap: 8, marginBottom: 20 }}>
+              {([
+                ['update', `Update "${existing.name}"`],
+                ['create', 'Save as new'],
+              ] as [SaveMode, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => handleModeChange(value)}
+                  style={{
+                    flex: 1,
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: mode === value ? '1px solid rgba(79, 195, 247, 0.5)' : '1px solid rgba(255,255,255,0.15)',
+                    background: mode === value ? 'rgba(79, 195, 247, 0.15)' : 'transparent',
+                    color: mode === value ? '#4fc3f7' : '#888',
+                    fontSize: 13,
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
           <div style={{ marginBottom: 16 }}>
             <label style={{ display: 'block', color: '#888', fontSize: 12, fontWeight: 500, marginBottom: 6, textTransform: 'uppercase' }}>
               Portfolio Name
@@ -425,8 +736,64 @@ function SavePortfolioModal({ isOpen, onClose, onSave, defaultName, positionCoun
               }}
             />
           </div>
+          <div style={{ display: 'flex', gap: 12, marginBottom: 16 }}>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: 'block', color: '#888', fontSize: 12, fontWeight: 500, marginBottom: 6, textTransform: 'uppercase' }}>
+                Folder
+              </label>
+              <input
+                value={folder}
+                onChange={e => setFolder(e.target.value)}
+                placeholder="Unfiled"
+                list="portfolio-folders"
+                style={{
+                  width: '100%',
+                  padding: '10px 14px',
+                  borderRadius: 8,
+                  border: '1px solid rgba(255,255,255,0.15)',
+                  background: 'rgba(0,0,0,0.2)',
+                  color: '#fff',
+                  fontSize: 14,
+                  outline: 'none',
+                }}
+              />
+              <datalist id="portfolio-folders">
+                {folders.map(f => <option key={f} value={f} />)}
+              </datalist>
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: 'block', color: '#888', fontSize: 12, fontWeight: 500, marginBottom: 6, textTransform: 'uppercase' }}>
+                Tags
+              </label>
+              <input
+                value={tags}
+                onChange={e => setTags(e.target.value)}
+                placeholder="energy, pairs"
+                style={{
+                  width: '100%',
+                  padding: '10px 14px',
+                  borderRadius: 8,
+                  border: '1px solid rgba(255,255,255,0.15)',
+                  background: 'rgba(0,0,0,0.2)',
+                  color: '#fff',
+                  fontSize: 14,
+                  outline: 'none',
+                }}
+              />
+            </div>
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 10, marginBottom: 16 }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8, color: '#ccc', fontSize: 14, cursor: 'pointer' }}>
+              <input type="checkbox" checked={isTracked} onChange={e => setIsTracked(e.target.checked)} />
+              Track daily and raise alerts
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8, color: '#ccc', fontSize: 14, cursor: 'pointer' }}>
+              <input type="checkbox" checked={isDefault} onChange={e => setIsDefault(e.target.checked)} />
+              Set as default portfolio
+            </label>
+          </div>
           <div style={{ color: '#666', fontSize: 13 }}>
-            {positionCount} position{positionCount !== 1 && 's'} will be saved
+            {positionCount} position{positionCount !== 1 && 's'} will be {mode === 'update' ? 'saved to this portfolio' : 'saved'}
           </div>
         </div>
         <div style={{ padding: '16px 24px', borderTop: '1px solid rgba(255,255,255,0.1)', display: 'flex', justifyContent: 'flex-end', gap: 12 }}>
@@ -453,7 +820,7 @@ function SavePortfolioModal({ isOpen, onClose, onSave, defaultName, positionCoun
             cursor: saving || !name.trim() ? 'not-allowed' : 'pointer',
             opacity: saving || !name.trim() ? 0.6 : 1,
           }}>
-            {saving ? 'Saving...' : 'Save Portfolio'}
+            {saving ? 'Saving...' : mode === 'update' ? 'Update Portfolio' : 'Save Portfolio'}
           </button>
         </div>
       </div>
@@ -469,9 +836,10 @@ interface SaveAnalysisCardProps {
   onSave: () => Promise<void>;
   saving: boolean;
   saved: boolean;
+  autoSaved: boolean;
 }
 
-function SaveAnalysisCard({ onSave, saving, saved }: SaveAnalysisCardProps) {
+function SaveAnalysisCard({ onSave, saving, saved, autoSaved }: SaveAnalysisCardProps) {
   return (
     <div style={{
       display: 'flex',
@@ -489,7 +857,9 @@ function SaveAnalysisCard({ onSave, saving, saved }: SaveAnalysisCardProps) {
           <path d="M12 8v4l3 3" />
         </svg>
         <span style={{ color: '#fff', fontSize: 14 }}>
-          {saved ? 'Analysis saved to history!' : 'Save this analysis to your history?'}
+          {saved ? 'Analysis saved to history!' :
+           autoSaved ? 'Auto-saved to history. Pin it to keep it past cleanup.' :
+           'Save this analysis to your history?'}
         </span>
       </div>
       <button
@@ -510,7 +880,7 @@ function SaveAnalysisCard({ onSave, saving, saved }: SaveAnalysisCardProps) {
         }}
       >
         {saving ? <Spinner size={14} /> : saved ? '✓' : null}
-        {saving ? 'Saving...' : saved ? 'Saved!' : 'Save to History'}
+        {saving ? 'Saving...' : saved ? 'Saved!' : autoSaved ? 'Pin in History' : 'Save to History'}
       </button>
     </div>
   );
@@ -521,15 +891,17 @@ function SaveAnalysisCard({ onSave, saving, saved }: SaveAnalysisCardProps) {
 // =============================================================================
 
 interface HistoryPanelProps {
-  analyses: any[];
+  analyses: AnalysisSummary[];
   loading: boolean;
   onView: (id: string) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
+  onTogglePin: (id: string, pinned: boolean) => Promise<void>;
   viewingHtml: string | null;
   onCloseViewer: () => void;
+  permissions: WorkspacePermissions;
 }
 
-function HistoryPanel({ analyses, loading, onView, onDelete, viewingHtml, onCloseViewer }: HistoryPanelProps) {
+function HistoryPanel({ analyses, loading, onView, onDelete, onTogglePin, viewingHtml, onCloseViewer, permissions }: HistoryPanelProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [loadingId, setLoadingId] = useState<string | null>(null);
 
@@ -627,11 +999,46 @@ function HistoryPanel({ analyses, loading, onView, onDelete, viewingHtml, onClos
               }}
             >
               <div style={{ flex: 1 }}>
-                <div style={{ color: '#fff', fontWeight: 600, fontSize: 15 }}>{analysis.portfolio_name}</div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <span style={{ color: '#fff', fontWeight: 600, fontSize: 15 }}>{analysis.portfolio_name}</span>
+                  {analysis.portfolio_version != null && (
+                    <span style={{ color: '#4fc3f7', fontSize: 11, fontWeight: 600, fontFamily: 'monospace' }}>
+                      v{analysis.portfolio_version}
+                    </span>
+                  )}
+                  {analysis.is_pinned ? (
+                    <span style={{ color: '#f39c12', fontSize: 11, fontWeight: 600 }}>📌 Pinned</span>
+                  ) : analysis.auto_saved ? (
+                    <span style={{
+                      padding: '2px 6px',
+                      borderRadius: 4,
+                      background: 'rgba(255, 255, 255, 0.08)',
+                      color: '#888',
+                      fontSize: 10,
+                      fontWeight: 600,
+                      textTransform: 'uppercase',
+                    }}>
+                      Auto-saved
+                    </span>
+                  ) : null}
+                </div>
                 <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginTop: 6 }}>
                   <span style={{ color: '#666', fontSize: 13 }}>{formatDate(analysis.created_at)}</span>
                   <span style={{ color: '#666', fontSize: 13 }}>•</span>
-                  <span style={{ color: '#666', fontSize: 13 }}>{analysis.analysis_period_days}d period</span>
+                  {analysis.source === 'custom_upload' ? (
+                    <span style={{
+                      padding: '2px 8px',
+                      borderRadius: 4,
+                      background: 'rgba(74, 222, 128, 0.12)',
+                      color: '#4ade80',
+                      fontSize: 11,
+                      fontWeight: 600,
+                    }}>
+                      Uploaded data
+                    </span>
+                  ) : (
+                    <span style={{ color: '#666', fontSize: 13 }}>{analysis.analysis_period_days}d period</span>
+                  )}
                   {analysis.result_summary?.regime && (
                     <>
                       <span style={{ color: '#666', fontSize: 13 }}>•</span>
@@ -647,9 +1054,40 @@ function HistoryPanel({ analyses, loading, onView, onDelete, viewingHtml, onClos
                       </span>
                     </>
                   )}
+                  {analysis.result_summary?.signal && (
+                    <span style={{ color: '#888', fontSize: 12, fontWeight: 600, textTransform: 'uppercase' }}>
+                      {analysis.result_summary.signal}
+                    </span>
+                  )}
+                  {analysis.result_summary?.validity && (
+                    <span style={{
+                      color: analysis.result_summary.validity.validity_state === 'valid' ? '#00b894' :
+                             analysis.result_summary.validity.validity_state === 'invalid' ? '#e74c3c' : '#f39c12',
+                      fontSize: 12,
+                    }}>
+                      Validity {analysis.result_summary.validity.validity_score.toFixed(0)}
+                    </span>
+                  )}
                 </div>
               </div>
               <div style={{ display: 'flex', gap: 8 }}>
+                {analysis.auto_saved && permissions.canEdit && (
+                  <button
+                    onClick={() => onTogglePin(analysis.id, !analysis.is_pinned)}
+                    title={analysis.is_pinned ? 'Unpin (allow retention cleanup)' : 'Pin (keep past retention cleanup)'}
+                    style={{
+                      padding: '8px 12px',
+                      borderRadius: 8,
+                      border: '1px solid rgba(255,255,255,0.15)',
+                      background: analysis.is_pinned ? 'rgba(243, 156, 18, 0.15)' : 'transparent',
+                      color: analysis.is_pinned ? '#f39c12' : '#888',
+                      fontSize: 13,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {analysis.is_pinned ? 'Unpin' : 'Pin'}
+                  </button>
+                )}
                 <button
                   onClick={() => handleView(analysis.id)}
                   disabled={loadingId === analysis.id}
@@ -669,21 +1107,23 @@ function HistoryPanel({ analyses, loading, onView, onDelete, viewingHtml, onClos
                 >
                   {loadingId === analysis.id ? <Spinner size={14} /> : 'View'}
                 </button>
-                <button
-                  onClick={() => handleDelete(analysis.id)}
-                  disabled={deletingId === analysis.id}
-                  style={{
-                    padding: '8px 12px',
-                    borderRadius: 8,
-                    border: 'none',
-                    background: 'rgba(231, 76, 60, 0.15)',
-                    color: '#e74c3c',
-                    fontSize: 13,
-                    cursor: 'pointer',
-                  }}
-                >
-                  {deletingId === analysis.id ? <Spinner size={14} /> : '✕'}
-                </button>
+                {permissions.canDelete && (
+                  <button
+                    onClick={() => handleDelete(analysis.id)}
+                    disabled={deletingId === analysis.id}
+                    style={{
+                      padding: '8px 12px',
+                      borderRadius: 8,
+                      border: 'none',
+                      background: 'rgba(231, 76, 60, 0.15)',
+                      color: '#e74c3c',
+                      fontSize: 13,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {deletingId === analysis.id ? <Spinner size={14} /> : '✕'}
+                  </button>
+                )}
               </div>
             </div>
           ))}
@@ -698,29 +1138,41 @@ function HistoryPanel({ analyses, loading, onView, onDelete, viewingHtml, onClos
 // =============================================================================
 
 interface AlertsPanelProps {
-  alerts: any[];
+  alerts: Alert[];
   loading: boolean;
   unreadCount: number;
   onMarkRead: (id: string) => Promise<void>;
   onMarkAllRead: () => Promise<void>;
   onDelete: (id: string) => Promise<void>;
+  onOpenPortfolio: (alert: Alert) => void;
+  live: boolean;
+  permissions: WorkspacePermissions;
 }
 
-function getAlertColor(type: string) {
+function getAlertColor(type: Alert['alert_type']) {
   switch (type) {
-    case 'BUY_SIGNAL':
+    case 'buy':
       return { bg: 'rgba(0, 184, 148, 0.1)', border: 'rgba(0, 184, 148, 0.3)', color: '#00b894' };
-    case 'SELL_SIGNAL':
+    case 'sell':
+    case 'drawdown':
       return { bg: 'rgba(231, 76, 60, 0.1)', border: 'rgba(231, 76, 60, 0.3)', color: '#e74c3c' };
-    case 'REGIME_CHANGE':
+    case 'regime_change':
+    case 'zscore_extreme':
       return { bg: 'rgba(243, 156, 18, 0.1)', border: 'rgba(243, 156, 18, 0.3)', color: '#f39c12' };
     default:
       return { bg: 'rgba(79, 195, 247, 0.1)', border: 'rgba(79, 195, 247, 0.3)', color: '#4fc3f7' };
   }
 }
 
-function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead, onDelete }: AlertsPanelProps) {
+function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead, onDelete, onOpenPortfolio, live, permissions }: AlertsPanelProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<Alert['alert_type'] | 'all'>('all');
+  const [severityFilter, setSeverityFilter] = useState<Alert['severity'] | 'all'>('all');
+
+  const visibleAlerts = alerts.filter(a =>
+    (typeFilter === 'all' || a.alert_type === typeFilter) &&
+    (severityFilter === 'all' || a.severity === severityFilter)
+  );
 
   const handleDelete = async (id: string) => {
     setDeletingId(id);
@@ -738,6 +1190,9 @@ function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead,
           <h2 style={{ color: '#fff', fontSize: 20, fontWeight: 600, margin: 0 }}>Alerts</h2>
           <p style={{ color: '#666', fontSize: 14, marginTop: 4 }}>
             {unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}
+            <span style={{ marginLeft: 12, color: live ? '#00b894' : '#666', fontSize: 12 }}>
+              {live ? '● Live' : '○ Refreshing periodically'}
+            </span>
           </p>
         </div>
         {unreadCount > 0 && (
@@ -758,6 +1213,35 @@ function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead,
         )}
       </div>
 
+      {/* Filters */}
+      <div style={{ display: 'flex', gap: 12, marginBottom: 16, flexWrap: 'wrap' }}>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as Alert['alert_type'] | 'all')}
+          style={{ ...styles.select, width: 'auto', padding: '8px 12px', fontSize: 13 }}
+        >
+          <option value="all">All types</option>
+          {(Object.keys(ALERT_TYPE_LABELS) as Alert['alert_type'][]).map(t => (
+            <option key={t} value={t}>{ALERT_TYPE_LABELS[t]}</option>
+          ))}
+        </select>
+        <select
+          value={severityFilter}
+          onChange={(e) => setSeverityFilter(e.target.value as Alert['severity'] | 'all')}
+          style={{ ...styles.select, width: 'auto', padding: '8px 12px', fontSize: 13 }}
+        >
+          <option value="all">All severities</option>
+          <option value="critical">Critical</option>
+          <option value="warning">Warning</option>
+          <option value="info">Info</option>
+        </select>
+        {(typeFilter !== 'all' || severityFilter !== 'all') && (
+          <span style={{ color: '#666', fontSize: 13, alignSelf: 'center' }}>
+            {visibleAlerts.length} of {alerts.length}
+          </span>
+        )}
+      </div>
+
       {loading ? (
         <div style={{ textAlign: 'center', padding: 60 }}>
           <Spinner size={32} />
@@ -776,9 +1260,13 @@ function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead,
           <h3 style={{ color: '#fff', fontSize: 16, fontWeight: 600, margin: '0 0 8px' }}>No alerts yet</h3>
           <p style={{ color: '#666', fontSize: 14 }}>Enable tracking on portfolios to receive alerts</p>
         </div>
+      ) : visibleAlerts.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: 40, color: '#666', fontSize: 14 }}>
+          No alerts match these filters
+        </div>
       ) : (
         <div style={{ display: 'grid', gap: 12 }}>
-          {alerts.map(alert => {
+          {visibleAlerts.map(alert => {
             const colors = getAlertColor(alert.alert_type);
             return (
               <div
@@ -803,12 +1291,29 @@ function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead,
                       fontWeight: 700,
                       textTransform: 'uppercase',
                     }}>
-                      {alert.alert_type.replace('_', ' ')}
+                      {ALERT_TYPE_LABELS[alert.alert_type] ?? alert.alert_type}
+                    </span>
+                    <span style={{
+                      marginLeft: 8,
+                      color: SEVERITY_COLORS[alert.severity],
+                      fontSize: 11,
+                      fontWeight: 600,
+                      textTransform: 'uppercase',
+                    }}>
+                      {alert.severity}
                     </span>
                     <p style={{ color: '#fff', fontSize: 14, margin: '10px 0 6px' }}>{alert.message}</p>
                     <div style={{ color: '#666', fontSize: 12 }}>
                       {formatDate(alert.created_at)}
-                      {alert.portfolio_name && ` • ${alert.portfolio_name}`}
+                      {alert.portfolio_name && ' • '}
+                      {alert.portfolio_name && (
+                        <button
+                          onClick={() => onOpenPortfolio(alert)}
+                          style={{ background: 'none', border: 'none', padding: 0, color: '#4fc3f7', cursor: 'pointer', fontSize: 12 }}
+                        >
+                          {alert.portfolio_name} →
+                        </button>
+                      )}
                     </div>
                   </div>
                   <div style={{ display: 'flex', gap: 6 }}>
@@ -820,13 +1325,15 @@ function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead,
                         ✓
                       </button>
                     )}
-                    <button
-                      onClick={() => handleDelete(alert.id)}
-                      disabled={deletingId === alert.id}
-                      style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', fontSize: 12 }}
-                    >
-                      {deletingId === alert.id ? <Spinner size={12} /> : '✕'}
-                    </button>
+                    {permissions.canDelete && (
+                      <button
+                        onClick={() => handleDelete(alert.id)}
+                        disabled={deletingId === alert.id}
+                        style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', fontSize: 12 }}
+                      >
+                        {deletingId === alert.id ? <Spinner size={12} /> : '✕'}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -842,7 +1349,7 @@ function AlertsPanel({ alerts, loading, unreadCount, onMarkRead, onMarkAllRead,
 // MAIN COMPONENT
 // =============================================================================
 
-export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
+export default function AnalysisApp({ authFetch, workspace = PERSONAL_WORKSPACE, userId = null }: AnalysisAppProps) {
   // =============================================================================
   // STATE
   // =============================================================================
@@ -852,22 +1359,34 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
   const [portfolioName, setPortfolioName] = useState("Long/Short Portfolio");
   const [days, setDays] = useState(180);
   const [rows, setRows] = useState<PositionRow[]>([
-    { id: uid(), query: "", resolvedSymbol: null, amount: 1000000, candidates: [], loading: false, error: null },
-    { id: uid(), query: "", resolvedSymbol: null, amount: -1000000, candidates: [], loading: false, error: null },
+    { id: uid(), query: "", resolvedSymbol: null, amount: 1000000, currency: DEFAULT_CURRENCY, candidates: [], loading: false, error: null },
+    { id: uid(), query: "", resolvedSymbol: null, amount: -1000000, currency: DEFAULT_CURRENCY, candidates: [], loading: false, error: null },
   ]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [sizingMode, setSizingMode] = useState<SizingMode>('notional');
+  // Net asset value in base currency; weights are a percentage of it
+  const [nav, setNav] = useState(0);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('long_short');
 
   const [running, setRunning] = useState(false);
-  const [runError, setRunError] = useState<string | null>(null);
+  const [runError, setRunError] = useState<unknown>(null);
   const [html, setHtml] = useState<string>("");
   
   const [selectedPortfolioId, setSelectedPortfolioId] = useState<string | null>(null);
   const [saveModalOpen, setSaveModalOpen] = useState(false);
+  const [rulesPortfolio, setRulesPortfolio] = useState<Portfolio | null>(null);
+  const [historyPortfolio, setHistoryPortfolio] = useState<Portfolio | null>(null);
+  // Text to prefill the import modal with; null while it is closed
+  const [importText, setImportText] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
   const [analysisSaving, setAnalysisSaving] = useState(false);
   const [analysisSaved, setAnalysisSaved] = useState(false);
+  const [autoSavedId, setAutoSavedId] = useState<string | null>(null);
   const [viewingHistoryHtml, setViewingHistoryHtml] = useState<string | null>(null);
   
   // VALIDITY STATE
-  const [validityData, setValidityData] = useState<any>(null);
+  const [validityData, setValidityData] = useState<AnalysisValidity | null>(null);
+  const [lastRun, setLastRun] = useState<CompletedRun | null>(null);
   
   // AI MEMO TOGGLE
   const [includeAiMemo, setIncludeAiMemo] = useState(true);
@@ -876,18 +1395,85 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
   const [toasts, setToasts] = useState<Toast[]>([]);
   
   const abortRefs = useRef<Record<string, AbortController | null>>({});
+  const resolveTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const permissions = workspacePermissions(workspace.role);
+
+  // Switching workspace keeps the editor rows (as unsaved) but drops
+  // everything that points at the previous workspace's records.
+  const [editorWorkspaceId, setEditorWorkspaceId] = useState(workspace.id);
+  if (editorWorkspaceId !== workspace.id) {
+    setEditorWorkspaceId(workspace.id);
+    setSelectedPortfolioId(null);
+    setRulesPortfolio(null);
+    setHistoryPortfolio(null);
+    setAutoSavedId(null);
+    setAnalysisSaved(false);
+    setViewingHistoryHtml(null);
+  }
+
+  // =============================================================================
+  // TOAST HELPERS
+  // =============================================================================
+  
+  const showToast = useCallback((type: Toast['type'], message: string) => {
+    const id = uid();
+    setToasts(prev => [...prev, { id, type, message }]);
+    setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), 4000);
+  }, []);
+  
+  // Errors stay up at least until any Retry-After window has passed
+  const showErrorToast = useCallback((error: unknown, fallback: string) => {
+    const id = uid();
+    const retryMs = error instanceof ApiError ? error.retryRemaining() * 1000 : 0;
+    setToasts(prev => [...prev, { id, type: 'error', message: fallback, error }]);
+    setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), Math.max(6000, retryMs + 2000));
+  }, []);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const [notificationSettings, updateNotificationSettings] = useNotificationSettings();
+
+  // Assigned once handleOpenAlertPortfolio exists (it depends on the hooks below)
+  const openAlertPortfolioRef = useRef<(alert: Alert) => void>(() => {});
+
+  // New critical alerts surface immediately as a toast; critical and
+  // user-selected types also raise a desktop notification in one tab.
+  const handleIncomingAlert = useCallback((alert: Alert) => {
+    if (alert.severity === 'critical' && !alert.is_read) {
+      const prefix = alert.portfolio_name ? `${alert.portfolio_name}: ` : '';
+      showToast('error', `${prefix}${alert.message}`);
+    }
+    if (shouldNotify(alert, notificationSettings)) {
+      claimAlertNotification(alert.id).then(claimed => {
+        if (claimed) showAlertNotification(alert, () => openAlertPortfolioRef.current(alert));
+      });
+    }
+  }, [showToast, notificationSettings]);
 
   // =============================================================================
   // DATABASE HOOKS
   // =============================================================================
   
+  const api = useMemo(() => createApiClient(authFetch, API_BASE, workspace.id), [authFetch, workspace.id]);
+  const resolver = useMemo(() => createTickerResolver(api.resolve), [api]);
+
+  useEffect(() => {
+    const timers = resolveTimers.current;
+    return () => Object.values(timers).forEach(clearTimeout);
+  }, []);
+
   const {
     portfolios,
     loading: portfoliosLoading,
     savePortfolio,
+    updatePortfolio,
+    setDefaultPortfolio,
     deletePortfolio,
     refetch: refetchPortfolios,
-  } = usePortfolios(authFetch);
+  } = usePortfolios(api, workspace.id);
   
   const {
     analyses,
@@ -895,9 +1481,13 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
     total: analysesTotal,
     saveAnalysis,
     getAnalysis,
+    fetchAllAnalyses,
+    pinAnalysis,
     deleteAnalysis,
     refetch: refetchAnalyses,
-  } = useAnalyses(authFetch);
+  } = useAnalyses(api, workspace.id);
+
+  const [autoSaveSettings, updateAutoSaveSettings] = useAutoSaveSettings();
   
   const {
     alerts,
@@ -906,38 +1496,165 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
     markAsRead,
     markAllAsRead,
     deleteAlert,
+    live: alertsLive,
     refetch: refetchAlerts,
-  } = useAlerts(authFetch);
+  } = useAlerts(api, workspace.id, { onAlert: handleIncomingAlert });
 
   // =============================================================================
   // COMPUTED VALUES
   // =============================================================================
 
-  const gross = useMemo(() => rows.reduce((s, r) => s + Math.abs(Number(r.amount || 0)), 0), [rows]);
-  const net = useMemo(() => rows.reduce((s, r) => s + Number(r.amount || 0), 0), [rows]);
-  const longExposure = useMemo(() => rows.reduce((s, r) => s + (Number(r.amount || 0) > 0 ? Number(r.amount) : 0), 0), [rows]);
-  const shortExposure = useMemo(() => rows.reduce((s, r) => s + (Number(r.amount || 0) < 0 ? Math.abs(Number(r.amount)) : 0), 0), [rows]);
+  // Share counts and weights are converted to notionals with the latest
+  // prices and the NAV; rows that can't be converted yet have no notional
+  const {
+    prices,
+    loading: pricesLoading,
+    error: pricesError,
+    refetch: refetchPrices,
+  } = useLatestPrices(api, sizingMode === 'shares' ? rows.filter(r => r.resolvedSymbol).map(r => r.resolvedSymbol!) : []);
+  const sizingContext: SizingContext = useMemo(
+    () => ({ mode: sizingMode, prices, nav, baseCurrency }),
+    [sizingMode, prices, nav, baseCurrency]
+  );
+  const sized = useMemo(() => new Map(rows.map(r => [r.id, sizeOf(r, sizingContext)])), [rows, sizingContext]);
+  const unsizedRows = rows.filter(r => Number(r.amount || 0) !== 0 && sized.get(r.id)?.notional === null);
+
+  // Exposures are in the base currency; rows in a currency without a rate
+  // yet are left out and listed under the cards
+  const notionals = useMemo(() => rows.flatMap(r => {
+    const s = sized.get(r.id);
+    return s && s.notional !== null && s.notional !== 0 ? [{ amount: s.notional, currency: s.currency }] : [];
+  }), [rows, sized]);
+  const {
+    rates: fxRates,
+    loading: fxLoading,
+    error: fxError,
+    refetch: refetchFxRates,
+  } = useFxRates(api, baseCurrency, notionals.map(n => n.currency));
+  const exposures = useMemo(() => exposuresInBase(notionals, baseCurrency, fxRates), [notionals, baseCurrency, fxRates]);
+  const { long: longExposure, short: shortExposure, gross, net } = exposures;
+  // Base-currency value of one unit of a row's amount, for the transforms
+  const rateOf = useCallback((row: PositionRow) => {
+    const s = sized.get(row.id);
+    const rate = s ? rateToBase(s.currency, baseCurrency, fxRates) : undefined;
+    return s?.unitValue != null && rate !== undefined ? s.unitValue * rate : undefined;
+  }, [sized, baseCurrency, fxRates]);
+  const transformOptions = { rateOf, decimals: SIZE_DECIMALS[sizingMode] };
+  const rowCurrencies = currencyOptions(rows.map(r => r.currency));
   
-  const allResolved = rows.every(r => r.resolvedSymbol || Number(r.amount || 0) === 0);
-  const hasPositions = rows.some(r => r.resolvedSymbol && Number(r.amount || 0) !== 0);
+  // Row and portfolio checks; errors block the run, warnings are explained
+  const preflight = useMemo(() => runPreflight(
+    rows.map(r => {
+      const s = sized.get(r.id);
+      return {
+        id: r.id,
+        query: r.query,
+        resolvedSymbol: r.resolvedSymbol,
+        amount: r.amount,
+        currency: s?.currency ?? r.currency,
+        notional: s?.notional ?? null,
+        rate: rateToBase(s?.currency ?? r.currency, baseCurrency, fxRates),
+      };
+    }),
+    {
+      baseCurrency,
+      sizingMode,
+      analysisMode,
+      pricesLoading,
+      pricesFailed: !!pricesError,
+      fxLoading,
+      fxFailed: !!fxError,
+    }
+  ), [rows, sized, baseCurrency, fxRates, sizingMode, analysisMode, pricesLoading, pricesError, fxLoading, fxError]);
+  const rowIssueCounts = Object.values(preflight.rows).flat().reduce(
+    (counts, i) => ({ ...counts, [i.severity]: counts[i.severity] + 1 }),
+    { error: 0, warning: 0 }
+  );
+  const canRun = !running && !preflight.hasErrors && !preflight.pending;
   
+  // Notionals as of now; other sizing modes also keep the size as entered
   const currentPositions: Position[] = rows
     .filter(r => r.resolvedSymbol && Number(r.amount || 0) !== 0)
-    .map(r => ({ ticker: r.resolvedSymbol!, amount: Number(r.amount) }));
+    .map(r => {
+      const s = sized.get(r.id)!;
+      return {
+        ticker: r.resolvedSymbol!,
+        amount: Math.round(s.notional ?? 0),
+        currency: s.currency,
+        ...(sizingMode !== 'notional' ? { size: Number(r.amount) } : {}),
+      };
+    });
+
+  // Cards for the figures that mean something in the current mode
+  const exposureCards: { label: string; value: string; color?: string }[] = (() => {
+    const signColor = net > 0 ? '#00b894' : net < 0 ? '#e74c3c' : undefined;
+    if (analysisMode === 'single') {
+      return [
+        { label: 'Instrument', value: currentPositions[0]?.ticker ?? '—' },
+        { label: 'Direction', value: net > 0 ? 'Long' : net < 0 ? 'Short' : '—', color: signColor },
+        { label: 'Exposure', value: formatCurrency(Math.abs(net), baseCurrency), color: signColor },
+      ];
+    }
+    if (analysisMode === 'long_only') {
+      const largest = Math.max(0, ...notionals.map(n => Math.abs(n.amount) * (rateToBase(n.currency, baseCurrency, fxRates) ?? 0)));
+      return [
+        { label: 'Gross Exposure', value: formatCurrency(gross, baseCurrency), color: '#00b894' },
+        { label: 'Positions', value: String(currentPositions.length) },
+        { label: 'Largest Position', value: gross > 0 ? `${((largest / gross) * 100).toFixed(1)}%` : '—' },
+      ];
+    }
+    return [
+      { label: 'Long Exposure', value: formatCurrency(longExposure, baseCurrency), color: '#00b894' },
+      { label: 'Short Exposure', value: formatCurrency(shortExposure, baseCurrency), color: '#e74c3c' },
+      { label: 'Gross Exposure', value: formatCurrency(gross, baseCurrency) },
+      { label: 'Net Exposure', value: formatCurrency(net, baseCurrency), color: net >= 0 ? '#00b894' : '#e74c3c' },
+    ];
+  })();
+
+  const selectedPortfolio = portfolios.find(p => p.id === selectedPortfolioId) ?? null;
+  const matchesSelectedPortfolio = selectedPortfolio !== null && sameHoldings(
+    { positions: currentPositions, sizingMode, nav },
+    { positions: selectedPortfolio.positions, sizingMode: selectedPortfolio.sizing_mode ?? 'notional', nav: selectedPortfolio.nav },
+    selectedPortfolio.base_currency
+  );
 
-  // =============================================================================
-  // TOAST HELPERS
-  // =============================================================================
-  
-  const showToast = useCallback((type: Toast['type'], message: string) => {
-    const id = uid();
-    setToasts(prev => [...prev, { id, type, message }]);
-    setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), 4000);
-  }, []);
-  
-  const dismissToast = useCallback((id: string) => {
-    setToasts(prev => prev.filter(t => t.id !== id));
-  }, []);
+  const exportRows: ExportRow[] = rows
+    .filter(r => r.query.trim() || r.resolvedSymbol)
+    .map(r => ({
+      ticker: r.query.trim() || r.resolvedSymbol!,
+      amount: Math.round(sized.get(r.id)?.notional ?? 0),
+      provider_symbol: r.resolvedSymbol,
+      exchange: r.instrument?.exchange ?? null,
+      currency: sized.get(r.id)?.currency ?? r.currency,
+    }));
+
+  const knownInstruments = useMemo(() => {
+    const bySymbol: Record<string, Candidate> = {};
+    rows.forEach(r => {
+      if (r.resolvedSymbol && r.instrument) bySymbol[r.resolvedSymbol] = r.instrument;
+    });
+    return bySymbol;
+  }, [rows]);
+
+  const lastAnalyzed = useMemo(() => {
+    const latest: Record<string, string> = {};
+    analyses.forEach(a => {
+      if (a.portfolio_id && (!latest[a.portfolio_id] || a.created_at > latest[a.portfolio_id])) {
+        latest[a.portfolio_id] = a.created_at;
+      }
+    });
+    return latest;
+  }, [analyses]);
+
+  // Regimes seen in history, suggested in the alert rule editor
+  const knownRegimes = useMemo(() => {
+    const regimes = new Set<string>();
+    analyses.forEach(a => {
+      if (a.result_summary?.regime) regimes.add(a.result_summary.regime);
+      if (a.result_summary?.validity?.regime) regimes.add(a.result_summary.validity.regime);
+    });
+    return [...regimes].sort();
+  }, [analyses]);
 
   // =============================================================================
   // ROW MANAGEMENT
@@ -947,53 +1664,175 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
     setRows((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
   }
 
-  function addRow() {
-    setRows((prev) => [
-      ...prev,
-      { id: uid(), query: "", resolvedSymbol: null, amount: 0, candidates: [], loading: false, error: null },
-    ]);
+  function addRow() {
+    setRows((prev) => [
+      ...prev,
+      { id: uid(), query: "", resolvedSymbol: null, amount: 0, currency: baseCurrency, candidates: [], loading: false, error: null },
+    ]);
+  }
+
+  function removeRow(id: string) {
+    if (rows.length <= 1) return;
+    setRows((prev) => prev.filter((r) => r.id !== id));
+  }
+
+  function transformRows(transform: (rows: PositionRow[]) => PositionRow[], message: string) {
+    try {
+      setRows(transform(rows));
+      setHtml("");
+      showToast('success', message);
+    } catch (e) {
+      showErrorToast(e, 'Could not transform positions');
+    }
+  }
+
+  function handleScaleRows(target: number, basis: 'gross' | 'net') {
+    transformRows(
+      (r) => (basis === 'gross' ? scaleToGross(r, target, transformOptions) : scaleToNet(r, target, transformOptions)),
+      `Scaled to ${formatCurrency(target, baseCurrency)} ${basis}`
+    );
+  }
+
+  async function handleBetaNeutral() {
+    const tickers = [...new Set(currentPositions.map(p => p.ticker))];
+    try {
+      const { betas, benchmark } = await api.betas(tickers, days);
+      transformRows(
+        (r) => toBetaNeutral(r, row => (row.resolvedSymbol ? betas[row.resolvedSymbol] : undefined), transformOptions),
+        `Rebalanced to beta-neutral vs ${benchmark}`
+      );
+    } catch (e) {
+      showErrorToast(e, 'Failed to fetch betas');
+    }
   }
 
-  function removeRow(id: string) {
-    if (rows.length <= 2) return;
-    setRows((prev) => prev.filter((r) => r.id !== id));
+  // Re-expresses every row in the new mode so the portfolio keeps its
+  // exposures; switching to weights without a NAV uses the current gross.
+  async function handleSizingModeChange(next: SizingMode) {
+    if (next === sizingMode) return;
+    const nextNav = next === 'weight' && !(nav > 0) ? Math.round(gross) : nav;
+    if (rows.every(r => Number(r.amount || 0) === 0)) {
+      setSizingMode(next);
+      setNav(nextNav);
+      return;
+    }
+    try {
+      const tickers = [...new Set(rows.filter(r => r.resolvedSymbol).map(r => r.resolvedSymbol!))];
+      const latest = (sizingMode === 'shares' || next === 'shares') && tickers.length > 0
+        ? (await api.prices(tickers)).prices
+        : {};
+      const from: SizingContext = { ...sizingContext, prices: { ...prices, ...latest } };
+      const to: SizingContext = { ...from, mode: next, nav: nextNav };
+      const currencies = [...new Set(rows.flatMap(r => [sizeOf(r, from).currency, sizeOf(r, to).currency]))]
+        .filter(c => c !== baseCurrency);
+      const { rates } = currencies.length > 0 ? await api.fxRates(baseCurrency, currencies) : { rates: {} };
+
+      const converted = rows.map(r => ({ row: r, amount: convertSize(r, from, to, rates) }));
+      const failed = converted.filter(c => c.amount === null).map(c => c.row.resolvedSymbol ?? (c.row.query.trim() || 'an unnamed row'));
+      if (failed.length > 0) {
+        showToast('error', `Could not convert ${failed.join(", ")} to ${SIZING_MODE_LABELS[next].toLowerCase()}: no price or FX rate.`);
+        return;
+      }
+      setRows(converted.map(c => ({ ...c.row, amount: c.amount! })));
+      setSizingMode(next);
+      setNav(nextNav);
+      setHtml("");
+    } catch (e) {
+      showErrorToast(e, 'Could not convert position sizes');
+    }
   }
 
-  async function resolveRow(id: string, q: string) {
+  // Resolves true when the query matched a single instrument. Imported rows
+  // that came with a currency keep it rather than taking the instrument's.
+  async function resolveRow(id: string, q: string, keepCurrency = false): Promise<boolean> {
+    clearTimeout(resolveTimers.current[id]);
     const query = q.trim();
     if (!query) {
       updateRow(id, { candidates: [], loading: false, error: null });
-      return;
+      return false;
     }
 
     abortRefs.current[id]?.abort();
     const ac = new AbortController();
     abortRefs.current[id] = ac;
 
-    updateRow(id, { loading: true, error: null });
+    // Cached queries resolve synchronously enough to skip the spinner
+    if (!resolver.peek(query)) updateRow(id, { loading: true, error: null });
 
     try {
-      const res = await fetch(`${API_BASE}/resolve?q=${encodeURIComponent(query)}`, {
-        signal: ac.signal,
-      });
-      if (!res.ok) throw new Error("Search failed");
-      const data = await res.json();
+      const data = await resolver.resolve(query, ac.signal);
       const cands = data.candidates || [];
 
       if (data.auto_selected && cands.length > 0) {
         updateRow(id, {
           resolvedSymbol: cands[0].provider_symbol,
+          instrument: cands[0],
+          ...(keepCurrency ? {} : instrumentCurrency(cands[0])),
           candidates: [],
           loading: false,
         });
-      } else {
-        updateRow(id, { candidates: cands, loading: false });
+        return true;
       }
-    } catch (e: any) {
-      if (e.name !== "AbortError") {
-        updateRow(id, { loading: false, error: e.message || "Search error" });
+      updateRow(id, { candidates: cands, loading: false });
+    } catch (e) {
+      if (!(e instanceof Error && e.name === "AbortError")) {
+        updateRow(id, { loading: false, error: describeApiError(e, "Search error") });
       }
     }
+    return false;
+  }
+
+  // Typing waits for a pause; blur and Enter resolve straight away
+  function handleQueryChange(id: string, query: string) {
+    clearTimeout(resolveTimers.current[id]);
+    abortRefs.current[id]?.abort();
+    updateRow(id, { query, resolvedSymbol: null, instrument: undefined, candidates: [], loading: false, error: null });
+    if (query.trim()) {
+      resolveTimers.current[id] = setTimeout(() => resolveRow(id, query), RESOLVE_DEBOUNCE_MS);
+    }
+  }
+
+  async function handleImportPositions(imported: ImportedPosition[], mode: ImportMode) {
+    setImportText(null);
+    const newRows: PositionRow[] = imported.map((p) => ({
+      id: uid(),
+      query: p.query,
+      resolvedSymbol: null,
+      amount: roundSize(p.amount, sizingMode),
+      currency: p.currency ?? baseCurrency,
+      candidates: [],
+      loading: true,
+      error: null,
+    }));
+    // Blank rows left over from the editor would only get in the way
+    setRows((prev) => {
+      const next = mode === "replace" ? [...newRows] : [...prev.filter((r) => r.query.trim()), ...newRows];
+      // The editor always keeps at least one row
+      if (next.length === 0) {
+        next.push({ id: uid(), query: "", resolvedSymbol: null, amount: 0, currency: baseCurrency, candidates: [], loading: false, error: null });
+      }
+      return next;
+    });
+    setHtml("");
+
+    // Resolve in parallel, a few at a time so large pastes don't flood /resolve
+    const withCurrency = new Set(newRows.filter((_, i) => imported[i].currency).map((r) => r.id));
+    const queue = [...newRows];
+    let resolved = 0;
+    const worker = async () => {
+      for (let row = queue.shift(); row; row = queue.shift()) {
+        if (await resolveRow(row.id, row.query, withCurrency.has(row.id))) resolved++;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(IMPORT_CONCURRENCY, queue.length) }, worker));
+
+    const pending = newRows.length - resolved;
+    showToast(
+      pending > 0 ? 'info' : 'success',
+      pending > 0
+        ? `Imported ${newRows.length} positions. ${pending} need${pending === 1 ? 's' : ''} a ticker selected.`
+        : `Imported ${newRows.length} positions`
+    );
   }
 
   // =============================================================================
@@ -1001,136 +1840,378 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
   // =============================================================================
 
   const handleLoadPortfolio = useCallback((portfolio: Portfolio) => {
+    const base = portfolio.base_currency ?? DEFAULT_CURRENCY;
+    const mode = portfolio.sizing_mode ?? 'notional';
     setSelectedPortfolioId(portfolio.id);
     setPortfolioName(portfolio.name);
-    setRows(
-      portfolio.positions.map((p) => ({
-        id: uid(),
-        query: p.ticker,
-        resolvedSymbol: p.ticker,
-        amount: p.amount,
-        candidates: [],
-        loading: false,
-        error: null,
-      }))
-    );
+    setBaseCurrency(base);
+    setSizingMode(mode);
+    setNav(portfolio.nav ?? 0);
+    setAnalysisMode(portfolio.analysis_mode ?? inferAnalysisMode(portfolio.positions));
+    setRows(positionsToRows(portfolio.positions, base, mode));
     setHtml("");
     setAnalysisSaved(false);
+    setAutoSavedId(null);
     showToast('success', `Loaded "${portfolio.name}"`);
   }, [showToast]);
 
-  const handleSavePortfolio = useCallback(async (name: string, description: string) => {
+  // Restores into the editor only; saving makes it the current version.
+  // Sizes are read in the mode and NAV the version was saved with. Versions
+  // that don't record them are restored from their stored notionals.
+  const handleRestoreVersion = useCallback((version: PortfolioVersion) => {
+    const owner = portfolios.find(p => p.id === version.portfolio_id) ?? historyPortfolio;
+    const base = version.base_currency ?? owner?.base_currency ?? DEFAULT_CURRENCY;
+    const savedMode = version.sizing_mode ?? 'notional';
+    const mode = version.positions.every(p => p.size !== undefined) ? savedMode : 'notional';
+    setSelectedPortfolioId(version.portfolio_id);
+    setPortfolioName(version.name);
+    setBaseCurrency(base);
+    setSizingMode(mode);
+    setNav(mode === 'weight' ? version.nav ?? 0 : owner?.nav ?? 0);
+    setAnalysisMode(owner?.analysis_mode ?? inferAnalysisMode(version.positions));
+    setRows(positionsToRows(version.positions, base, mode));
+    setHtml("");
+    setAnalysisSaved(false);
+    setAutoSavedId(null);
+    setHistoryPortfolio(null);
+    showToast('info', `Restored v${version.version} of "${version.name}". Update the portfolio to keep it.`);
+  }, [portfolios, historyPortfolio, showToast]);
+
+  const portfolioSettings = useMemo(() => ({
+    base_currency: baseCurrency,
+    sizing_mode: sizingMode,
+    nav: sizingMode === 'weight' ? nav : null,
+    analysis_mode: analysisMode,
+  }), [baseCurrency, sizingMode, nav, analysisMode]);
+
+  const handleSavePortfolio = useCallback(async (values: PortfolioFormValues, mode: SaveMode) => {
+    if (mode === 'update' && selectedPortfolioId) {
+      try {
+        await updatePortfolio(selectedPortfolioId, {
+          ...values,
+          description: values.description || null,
+          // Unchanged holdings aren't resent, so price drift doesn't record a new version
+          ...(matchesSelectedPortfolio ? {} : { positions: currentPositions }),
+          ...portfolioSettings,
+        });
+        setPortfolioName(values.name);
+        showToast('success', `Portfolio "${values.name}" updated`);
+      } catch (e) {
+        showErrorToast(e, 'Failed to update portfolio');
+      }
+      return;
+    }
     try {
-      const saved = await savePortfolio(name, currentPositions, { description });
+      const saved = await savePortfolio(values.name, currentPositions, { ...values, ...portfolioSettings });
       setSelectedPortfolioId(saved.id);
-      showToast('success', `Portfolio "${name}" saved!`);
-    } catch (e: any) {
-      showToast('error', e.message || 'Failed to save portfolio');
+      setPortfolioName(values.name);
+      showToast('success', `Portfolio "${values.name}" saved!`);
+    } catch (e) {
+      showErrorToast(e, 'Failed to save portfolio');
+    }
+  }, [savePortfolio, updatePortfolio, selectedPortfolioId, currentPositions, matchesSelectedPortfolio, portfolioSettings, showToast, showErrorToast]);
+
+  const handleDuplicatePortfolio = useCallback(async (inverted: boolean) => {
+    if (!selectedPortfolio) return;
+    try {
+      const copy = await savePortfolio(
+        `${selectedPortfolio.name} (${inverted ? 'inverted' : 'copy'})`,
+        inverted ? invertAmounts(selectedPortfolio.positions) : selectedPortfolio.positions,
+        {
+          description: selectedPortfolio.description ?? undefined,
+          is_tracked: selectedPortfolio.is_tracked,
+          tags: selectedPortfolio.tags,
+          folder: selectedPortfolio.folder,
+          base_currency: selectedPortfolio.base_currency,
+          sizing_mode: selectedPortfolio.sizing_mode,
+          nav: selectedPortfolio.nav,
+          analysis_mode: selectedPortfolio.analysis_mode,
+        }
+      );
+      handleLoadPortfolio(copy);
+    } catch (e) {
+      showErrorToast(e, 'Failed to duplicate portfolio');
     }
-  }, [savePortfolio, currentPositions, showToast]);
+  }, [selectedPortfolio, savePortfolio, handleLoadPortfolio, showErrorToast]);
+
+  const handleSetDefaultPortfolio = useCallback(async (id: string, isDefault: boolean) => {
+    try {
+      const updated = await setDefaultPortfolio(id, isDefault);
+      showToast('success', isDefault ? `"${updated.name}" is now your default portfolio` : 'Default portfolio cleared');
+    } catch (e) {
+      showErrorToast(e, 'Failed to update default portfolio');
+    }
+  }, [setDefaultPortfolio, showToast, showErrorToast]);
+
+  const handleToggleTracked = useCallback(async (id: string, tracked: boolean) => {
+    try {
+      await updatePortfolio(id, { is_tracked: tracked });
+    } catch (e) {
+      showErrorToast(e, tracked ? 'Failed to start tracking' : 'Failed to stop tracking');
+    }
+  }, [updatePortfolio, showErrorToast]);
+
+  const defaultLoadedRef = useRef(false);
+
+  // A share link ("#share=...") pre-fills the editor as an unsaved portfolio
+  // and takes the place of the default portfolio.
+  useEffect(() => {
+    const shared = parseShareHash(window.location.hash);
+    if (!shared) return;
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    defaultLoadedRef.current = true;
+    setSelectedPortfolioId(null);
+    if (shared.name) setPortfolioName(shared.name);
+    const base = shared.baseCurrency ?? DEFAULT_CURRENCY;
+    setBaseCurrency(base);
+    setSizingMode('notional');
+    setAnalysisMode(inferAnalysisMode(shared.positions));
+    setRows(positionsToRows(shared.positions, base));
+    showToast('info', `Loaded ${shared.positions.length} shared positions. Save to keep them.`);
+  }, [showToast]);
+
+  // Load the default portfolio once, when portfolios first arrive, unless
+  // the user has already started filling in rows.
+  useEffect(() => {
+    if (portfoliosLoading || defaultLoadedRef.current) return;
+    defaultLoadedRef.current = true;
+    const pristine = !selectedPortfolioId && rows.every(r => !r.query.trim() && !r.resolvedSymbol);
+    const defaultPortfolio = portfolios.find(p => p.is_default);
+    if (defaultPortfolio && pristine) handleLoadPortfolio(defaultPortfolio);
+  }, [portfoliosLoading, portfolios, selectedPortfolioId, rows, handleLoadPortfolio]);
 
   const handleDeletePortfolio = useCallback(async (id: string) => {
     try {
       await deletePortfolio(id);
       if (selectedPortfolioId === id) setSelectedPortfolioId(null);
       showToast('success', 'Portfolio deleted');
-    } catch (e: any) {
-      showToast('error', e.message || 'Failed to delete portfolio');
+    } catch (e) {
+      showErrorToast(e, 'Failed to delete portfolio');
+    }
+  }, [deletePortfolio, selectedPortfolioId, showToast, showErrorToast]);
+
+  // =============================================================================
+  // ALERT HANDLERS
+  // =============================================================================
+
+  const handleMarkAlertRead = useCallback(async (id: string) => {
+    try {
+      await markAsRead(id);
+    } catch (e) {
+      showErrorToast(e, 'Failed to mark alert as read');
+    }
+  }, [markAsRead, showErrorToast]);
+
+  const handleMarkAllAlertsRead = useCallback(async () => {
+    try {
+      await markAllAsRead();
+    } catch (e) {
+      showErrorToast(e, 'Failed to mark all alerts as read');
+    }
+  }, [markAllAsRead, showErrorToast]);
+
+  const handleDeleteAlert = useCallback(async (id: string) => {
+    try {
+      await deleteAlert(id);
+    } catch (e) {
+      showErrorToast(e, 'Failed to delete alert');
     }
-  }, [deletePortfolio, selectedPortfolioId, showToast]);
+  }, [deleteAlert, showErrorToast]);
+
+  const handleOpenAlertPortfolio = useCallback((alert: Alert) => {
+    const portfolio = portfolios.find(p => p.id === alert.portfolio_id);
+    if (!portfolio) {
+      showToast('error', `Portfolio "${alert.portfolio_name ?? alert.portfolio_id}" no longer exists`);
+      return;
+    }
+    if (!alert.is_read) handleMarkAlertRead(alert.id);
+    handleLoadPortfolio(portfolio);
+    setActiveTab('analysis');
+  }, [portfolios, handleLoadPortfolio, handleMarkAlertRead, showToast]);
+
+  useEffect(() => {
+    openAlertPortfolioRef.current = handleOpenAlertPortfolio;
+  }, [handleOpenAlertPortfolio]);
 
   // =============================================================================
   // ANALYSIS HANDLERS
   // =============================================================================
 
+  const persistRun = useCallback((run: CompletedRun, reportHtml: string, autoSaved: boolean) => {
+    return saveAnalysis(run.portfolioName, run.positions, run.days, run.summary, reportHtml, {
+      portfolio_id: run.portfolioId || undefined,
+      portfolio_version: run.portfolioVersion,
+      ai_memo: run.aiMemo || undefined,
+      duration_ms: run.durationMs,
+      auto_saved: autoSaved,
+    });
+  }, [saveAnalysis]);
+
+  // Retention: prune the user's own auto-saved, unpinned runs once History
+  // has loaded and after each auto-save. The whole list is checked, not just
+  // the loaded page; teammates' runs are left to their own settings.
+  const retentionRunning = useRef(false);
+  const pruneExpiredRuns = useCallback(async () => {
+    if (!autoSaveSettings.enabled || !permissions.canDelete || !userId || retentionRunning.current) return;
+    retentionRunning.current = true;
+    try {
+      const all = await fetchAllAnalyses();
+      await Promise.allSettled(
+        selectExpiredAnalyses(all, autoSaveSettings, userId).map(a => deleteAnalysis(a.id))
+      );
+    } catch {
+      // Retried after the next auto-save
+    } finally {
+      retentionRunning.current = false;
+    }
+  }, [autoSaveSettings, permissions.canDelete, userId, fetchAllAnalyses, deleteAnalysis]);
+
+  const prunedWorkspaceRef = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (analysesLoading || prunedWorkspaceRef.current === workspace.id) return;
+    prunedWorkspaceRef.current = workspace.id;
+    pruneExpiredRuns();
+  }, [analysesLoading, workspace.id, pruneExpiredRuns]);
+
+  // Bumped per run, so a slow auto-save can't attach to a newer run
+  const runIdRef = useRef(0);
+
   async function runAnalysis() {
+    const runId = ++runIdRef.current;
     setRunError(null);
     setHtml("");
     setAnalysisSaved(false);
+    setAutoSavedId(null);
     setValidityData(null); // Reset validity
+    setLastRun(null);
 
-    const positions = rows
-      .filter((r) => r.resolvedSymbol && Number(r.amount || 0) !== 0)
-      .map((r) => ({ ticker: r.resolvedSymbol!, amount: Number(r.amount) }));
-
-    if (positions.length === 0) {
-      setRunError("Please add at least one position with a resolved ticker and amount.");
+    if (preflight.hasErrors || preflight.pending) {
+      setRunError("Fix the errors marked in the positions table before running.");
       return;
     }
 
-    const bad = rows.find((r) => Number(r.amount || 0) !== 0 && !r.resolvedSymbol);
-    if (bad) {
-      setRunError("One or more positions has an amount but no selected ticker.");
-      return;
-    }
+    // /analyze always takes notionals
+    const positions = currentPositions.map(({ ticker, amount, currency }) => ({ ticker, amount, currency }));
 
-    const payload = {
+    const payload: AnalyzeRequest = {
       portfolio_name: portfolioName,
       analysis_period_days: Number(days || 180),
       include_ai_memo: includeAiMemo,
       positions,
+      base_currency: baseCurrency,
+      analysis_mode: analysisMode,
       ...(analysisEndDate ? { analysis_end_date: analysisEndDate } : {}),
     };
 
     setRunning(true);
+    const startedAt = performance.now();
     try {
       // Call /analyze to get JSON with validity data
-      const res = await authFetch(`${API_BASE}/analyze`, {
-        method: "POST",
-        body: JSON.stringify(payload),
-      });
-
-      if (res.status === 401) throw new Error("Session expired. Please refresh.");
-      if (res.status === 429) throw new Error("Rate limit exceeded. Please wait.");
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Analysis failed: ${txt || `HTTP ${res.status}`}`);
-      }
-
-      const data = await res.json();
+      const data = await api.analyze(payload);
+      const durationMs = Math.round(performance.now() - startedAt);
       
       // Set HTML report
       setHtml(data.html_report || "");
       
       // Capture validity data
-      if (data.validity) {
-        setValidityData({
-          ...data.validity,
-          full: data.validity_full || null,
-        });
+      const validity = data.validity
+        ? { ...data.validity, full: data.validity_full || null }
+        : null;
+      setValidityData(validity);
+
+      const run: CompletedRun = {
+        portfolioName: payload.portfolio_name,
+        portfolioId: selectedPortfolioId,
+        portfolioVersion: selectedPortfolio?.version != null && matchesSelectedPortfolio
+          ? selectedPortfolio.version
+          : null,
+        positions,
+        days: payload.analysis_period_days,
+        summary: summarizeAnalysis(data, validity, analysisEndDate || null),
+        aiMemo: data.ai_memo || null,
+        durationMs,
+      };
+      setLastRun(run);
+
+      if (autoSaveSettings.enabled && permissions.canEdit && data.html_report) {
+        persistRun(run, data.html_report, true)
+          .then(saved => {
+            if (runIdRef.current === runId) setAutoSavedId(saved.id);
+            pruneExpiredRuns();
+          })
+          .catch(err => showErrorToast(err, 'Auto-save failed'));
       }
 
       setTimeout(() => {
         document.getElementById("report-section")?.scrollIntoView({ behavior: "smooth" });
       }, 100);
-    } catch (e: any) {
-      setRunError(e?.message || "Failed to run analysis");
+    } catch (e) {
+      setRunError(e);
     } finally {
       setRunning(false);
     }
   }
 
+  // Manual save pins the run; if it was already auto-saved, pin that entry
+  // instead of creating a duplicate.
   const handleSaveAnalysis = useCallback(async () => {
+    if (!lastRun) return;
     setAnalysisSaving(true);
     try {
-      await saveAnalysis(portfolioName, currentPositions, days, {}, html, {
-        portfolio_id: selectedPortfolioId || undefined,
-      });
+      if (autoSavedId) {
+        await pinAnalysis(autoSavedId);
+      } else {
+        await persistRun(lastRun, html, false);
+      }
       setAnalysisSaved(true);
       showToast('success', 'Analysis saved to history!');
     } catch (err) {
-      showToast('error', 'Failed to save analysis');
+      showErrorToast(err, 'Failed to save analysis');
     } finally {
       setAnalysisSaving(false);
     }
-  }, [portfolioName, currentPositions, days, html, selectedPortfolioId, saveAnalysis, showToast]);
+  }, [lastRun, autoSavedId, html, persistRun, pinAnalysis, showToast, showErrorToast]);
+
+  const handleTogglePin = useCallback(async (id: string, pinned: boolean) => {
+    try {
+      await pinAnalysis(id, pinned);
+    } catch (err) {
+      showErrorToast(err, pinned ? 'Failed to pin analysis' : 'Failed to unpin analysis');
+    }
+  }, [pinAnalysis, showErrorToast]);
 
   const handleViewAnalysis = useCallback(async (id: string) => {
-    const analysis = await getAnalysis(id);
-    if (analysis.html_report) {
-      setViewingHistoryHtml(analysis.html_report);
+    try {
+      const analysis = await getAnalysis(id);
+      if (analysis.html_report) {
+        setViewingHistoryHtml(analysis.html_report);
+      }
+    } catch (err) {
+      showErrorToast(err, 'Failed to load analysis');
+    }
+  }, [getAnalysis, showErrorToast]);
+
+  // Uploaded-data reports carry series weights in place of ticker positions
+  // and have no lookback window, so analysis_period_days is 0.
+  const handleSaveCustomAnalysis = useCallback(async (report: CustomAnalysisReport) => {
+    await saveAnalysis(
+      report.name,
+      report.weights.map(w => ({ ticker: w.name, amount: w.weight })),
+      0,
+      report.dataSummary ? { ...report.dataSummary } : {},
+      report.html,
+      { source: 'custom_upload' }
+    );
+    showToast('success', 'Report saved to history!');
+  }, [saveAnalysis, showToast]);
+
+  const handleDeleteAnalysis = useCallback(async (id: string) => {
+    try {
+      await deleteAnalysis(id);
+    } catch (err) {
+      showErrorToast(err, 'Failed to delete analysis');
     }
-  }, [getAnalysis]);
+  }, [deleteAnalysis, showErrorToast]);
 
   // =============================================================================
   // RENDER
@@ -1187,7 +2268,55 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab('monitor')}
+              style={activeTab === 'monitor' ? styles.navLinkActive : styles.navLink}
+            >
+              Monitor
+            </button>
+            <button
+              onClick={() => setActiveTab('alerts')}
+              style={{
+                ...(activeTab === 'alerts' ? styles.navLinkActive : styles.navLink),
+                position: 'relative',
+              }}
+            >
+              Alerts
+              {unreadCount > 0 && (
+                <span style={{
+                  position: 'absolute',
+                  top: -4,
+                  right: -4,
+                  background: '#e74c3c',
+                  color: '#fff',
+                  fontSize: 10,
+                  fontWeight: 700,
+                  padding: '2px 6px',
+                  borderRadius: 10,
+                }}>
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab('settings')}
+              style={activeTab === 'settings' ? styles.navLinkActive : styles.navLink}
+            >
+              Settings
+            </button>
             
+            <div style={styles.workspaceSwitcher}>
+              <OrganizationSwitcher
+                hidePersonal={false}
+                appearance={{ elements: { organizationSwitcherTrigger: { color: '#fff' } } }}
+              />
+              {workspace.id && (
+                <span style={styles.roleBadge} title={`Your role in ${workspace.name}`}>
+                  {WORKSPACE_ROLE_LABELS[workspace.role]}
+                </span>
+              )}
+            </div>
+
             <div style={styles.userButton}>
               <UserButton afterSignOutUrl="/" />
             </div>
@@ -1219,7 +2348,28 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                   onLoad={handleLoadPortfolio}
                   onSave={() => setSaveModalOpen(true)}
                   onDelete={handleDeletePortfolio}
-                  canSave={currentPositions.length > 0}
+                  onEditRules={setRulesPortfolio}
+                  onShowHistory={setHistoryPortfolio}
+                  onSetDefault={handleSetDefaultPortfolio}
+                  lastAnalyzed={lastAnalyzed}
+                  actions={
+                    <PortfolioActions
+                      selectedName={permissions.canEdit ? selectedPortfolio?.name ?? null : null}
+                      gross={gross}
+                      net={net}
+                      currency={baseCurrency}
+                      hedgeable={analysisMode === 'long_short'}
+                      canTransform={rows.some(r => Number(r.amount || 0) !== 0)}
+                      onDuplicate={handleDuplicatePortfolio}
+                      onInvert={() => transformRows(invertAmounts, 'Inverted all positions')}
+                      onScale={handleScaleRows}
+                      onDollarNeutral={() => transformRows((r) => toDollarNeutral(r, transformOptions), 'Rebalanced to dollar-neutral')}
+                      onBetaNeutral={handleBetaNeutral}
+                      onExport={() => setExportOpen(true)}
+                    />
+                  }
+                  canSave={currentPositions.length > 0 && unsizedRows.length === 0}
+                  permissions={permissions}
                 />
               </div>
 
@@ -1273,53 +2423,134 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                         </button>
                       )}
                     </div>
+                    <div style={styles.formGroup}>
+                      <label style={styles.label}>Base Currency</label>
+                      <div style={styles.selectWrapper}>
+                        <select
+                          value={baseCurrency}
+                          onChange={(e) => setBaseCurrency(e.target.value)}
+                          style={styles.select}
+                        >
+                          {currencyOptions([baseCurrency]).map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                      </div>
+                    </div>
+                    <div style={styles.formGroup}>
+                      <label style={styles.label}>Position Sizing</label>
+                      <div style={styles.selectWrapper}>
+                        <select
+                          value={sizingMode}
+                          onChange={(e) => handleSizingModeChange(e.target.value as SizingMode)}
+                          style={styles.select}
+                        >
+                          {SIZING_MODES.map(m => <option key={m} value={m}>{SIZING_MODE_LABELS[m]}</option>)}
+                        </select>
+                      </div>
+                    </div>
+                    <div style={styles.formGroup}>
+                      <label style={styles.label}>Analysis Mode</label>
+                      <div style={styles.selectWrapper}>
+                        <select
+                          value={analysisMode}
+                          onChange={(e) => setAnalysisMode(e.target.value as AnalysisMode)}
+                          style={styles.select}
+                        >
+                          {ANALYSIS_MODES.map(m => <option key={m} value={m}>{ANALYSIS_MODE_LABELS[m]}</option>)}
+                        </select>
+                      </div>
+                    </div>
+                    {sizingMode === 'weight' && (
+                      <div style={styles.formGroup}>
+                        <label style={styles.label}>NAV ({baseCurrency})</label>
+                        <input
+                          type="number"
+                          value={nav || ""}
+                          onChange={(e) => setNav(Math.max(0, Number(e.target.value) || 0))}
+                          placeholder="Net asset value"
+                          style={styles.input}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
 
               {/* Exposure Summary */}
-              <div style={styles.exposureGrid} className="exposure-grid">
-                <div style={styles.exposureCard}>
-                  <div style={styles.exposureLabel}>Long Exposure</div>
-                  <div style={{ ...styles.exposureValue, color: '#00b894' }} className="exposure-value">
-                    {formatCurrency(longExposure)}
-                  </div>
-                </div>
-                <div style={styles.exposureCard}>
-                  <div style={styles.exposureLabel}>Short Exposure</div>
-                  <div style={{ ...styles.exposureValue, color: '#e74c3c' }} className="exposure-value">
-                    {formatCurrency(shortExposure)}
+              <div
+                style={{ ...styles.exposureGrid, gridTemplateColumns: `repeat(${exposureCards.length}, 1fr)` }}
+                className="exposure-grid"
+              >
+                {exposureCards.map((card) => (
+                  <div key={card.label} style={styles.exposureCard}>
+                    <div style={styles.exposureLabel}>{card.label}</div>
+                    <div style={{ ...styles.exposureValue, ...(card.color ? { color: card.color } : {}) }} className="exposure-value">
+                      {card.value}
+                    </div>
                   </div>
+                ))}
+              </div>
+              {INAPPLICABLE_DIAGNOSTICS[analysisMode].length > 0 && (
+                <div style={styles.modeNotice}>
+                  {ANALYSIS_MODE_LABELS[analysisMode]} analysis skips diagnostics that need two legs:{' '}
+                  {INAPPLICABLE_DIAGNOSTICS[analysisMode].join(', ')}.
                 </div>
-                <div style={styles.exposureCard}>
-                  <div style={styles.exposureLabel}>Gross Exposure</div>
-                  <div style={styles.exposureValue} className="exposure-value">{formatCurrency(gross)}</div>
+              )}
+              {unsizedRows.length > 0 && (
+                <div style={styles.fxNotice}>
+                  {sizingMode === 'weight' ? (
+                    'Enter the portfolio NAV to convert weights to notionals.'
+                  ) : pricesError ? (
+                    <>
+                      Could not load latest prices, so share counts can&apos;t be converted.{' '}
+                      <button onClick={refetchPrices} style={styles.fxRetry}>Retry</button>
+                    </>
+                  ) : pricesLoading ? (
+                    'Loading latest prices…'
+                  ) : (
+                    `No latest price for ${unsizedRows.map(r => r.resolvedSymbol ?? (r.query.trim() || 'an unnamed row')).join(', ')}. Those positions are left out of the totals.`
+                  )}
                 </div>
-                <div style={styles.exposureCard}>
-                  <div style={styles.exposureLabel}>Net Exposure</div>
-                  <div style={{ ...styles.exposureValue, color: net >= 0 ? '#00b894' : '#e74c3c' }} className="exposure-value">
-                    {formatCurrency(net)}
-                  </div>
+              )}
+              {(exposures.missing.length > 0 || fxError) && (
+                <div style={styles.fxNotice}>
+                  {fxError ? (
+                    <>
+                      Could not load FX rates, so {exposures.missing.join(', ')} positions are left out of the totals.{' '}
+                      <button onClick={refetchFxRates} style={styles.fxRetry}>Retry</button>
+                    </>
+                  ) : fxLoading ? (
+                    `Loading ${exposures.missing.join(', ')} → ${baseCurrency} rates…`
+                  ) : (
+                    `No ${baseCurrency} rate for ${exposures.missing.join(', ')}. Those positions are left out of the totals.`
+                  )}
                 </div>
-              </div>
+              )}
 
               {/* Positions Card */}
               <div style={styles.card}>
                 <div style={styles.cardHeader}>
                   <h2 style={styles.cardTitle}>Portfolio Positions</h2>
-                  <button onClick={addRow} style={styles.addButton}>
-                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                      <line x1="12" y1="5" x2="12" y2="19" />
-                      <line x1="5" y1="12" x2="19" y2="12" />
-                    </svg>
-                    Add Position
-                  </button>
+                  <div style={{ display: 'flex', gap: 8 }}>
+                    <button onClick={() => setImportText("")} style={styles.addButton}>
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" />
+                      </svg>
+                      Import
+                    </button>
+                    <button onClick={addRow} style={styles.addButton}>
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="12" y1="5" x2="12" y2="19" />
+                        <line x1="5" y1="12" x2="19" y2="12" />
+                      </svg>
+                      Add Position
+                    </button>
+                  </div>
                 </div>
                 <div style={styles.cardBody}>
                   {/* Table Header */}
                   <div style={styles.tableHeader} className="table-header">
                     <div style={styles.tableHeaderCell}>Instrument</div>
-                    <div style={styles.tableHeaderCell}>Amount (USD)</div>
+                    <div style={styles.tableHeaderCell}>{SIZING_MODE_LABELS[sizingMode]}</div>
                     <div style={styles.tableHeaderCell}>Direction</div>
                     <div style={styles.tableHeaderCell}>Status</div>
                     <div style={styles.tableHeaderCell}></div>
@@ -1328,25 +2559,47 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                   {/* Rows */}
                   {rows.map((row) => {
                     const amt = Number(row.amount || 0);
+                    const size = sized.get(row.id);
                     const direction = amt > 0 ? "LONG" : amt < 0 ? "SHORT" : "—";
                     const dirColor = amt > 0 ? "#00b894" : amt < 0 ? "#e74c3c" : "#666";
+                    const issues = preflight.rows[row.id] ?? [];
+                    const severity = issues.some(i => i.severity === 'error') ? 'error' : issues.length > 0 ? 'warning' : null;
 
                     return (
-                      <div key={row.id} style={styles.tableRow} className="table-row">
+                      <div
+                        key={row.id}
+                        style={{
+                          ...styles.tableRow,
+                          boxShadow: severity ? `inset 3px 0 0 ${ISSUE_COLORS[severity]}` : undefined,
+                          paddingLeft: severity ? 12 : 0,
+                        }}
+                        className="table-row"
+                      >
                         {/* Instrument Cell */}
                         <div style={styles.tableCell}>
-                          <input
-                            value={row.query}
-                            onChange={(e) => {
-                              const val = e.target.value;
-                              updateRow(row.id, { query: val, resolvedSymbol: null, candidates: [], error: null });
-                            }}
-                            onBlur={() => resolveRow(row.id, row.query)}
-                            onKeyDown={(e) => {
-                              if (e.key === "Enter") resolveRow(row.id, row.query);
+                          <InstrumentSearch
+                            id={row.id}
+                            query={row.query}
+                            candidates={row.candidates}
+                            resolvedSymbol={row.resolvedSymbol}
+                            invalid={!!row.error}
+                            onQueryChange={(query) => handleQueryChange(row.id, query)}
+                            onResolve={() => resolveRow(row.id, row.query)}
+                            onSelect={(c) => updateRow(row.id, {
+                              resolvedSymbol: c.provider_symbol,
+                              query: c.provider_symbol,
+                              instrument: c,
+                              ...instrumentCurrency(c),
+                              candidates: [],
+                            })}
+                            onPaste={(e) => {
+                              // A multi-line or tab-separated block opens the importer instead
+                              const text = e.clipboardData.getData("text");
+                              if (/[\t\n]/.test(text.trim())) {
+                                e.preventDefault();
+                                setImportText(text);
+                              }
                             }}
-                            placeholder="Ticker or company name"
-                            style={styles.tickerInput}
                           />
                           {row.loading && (
                             <div style={styles.searchingIndicator}>
@@ -1354,40 +2607,39 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                             </div>
                           )}
                           {row.error && <div style={styles.errorText}>{row.error}</div>}
-                          {row.candidates.length > 0 && !row.resolvedSymbol && (
-                            <div style={styles.candidatesList}>
-                              {row.candidates.map((c) => (
-                                <button
-                                  key={c.provider_symbol}
-                                  onClick={() => {
-                                    updateRow(row.id, {
-                                      resolvedSymbol: c.provider_symbol,
-                                      query: c.provider_symbol,
-                                      candidates: [],
-                                    });
-                                  }}
-                                  style={styles.candidateButton}
-                                >
-                                  <span style={styles.candidateSymbol}>{c.provider_symbol}</span>
-                                  <span style={styles.candidateName}>{c.name}</span>
-                                  <span style={styles.candidateMeta}>
-                                    {c.exchange} {c.currency && `• ${c.currency}`}
-                                  </span>
-                                </button>
-                              ))}
-                            </div>
-                          )}
+                          {issues.map((issue) => <IssueLine key={issue.message} issue={issue} />)}
                         </div>
 
                         {/* Amount Cell */}
-                        <div>
-                          <input
-                            type="number"
-                            value={row.amount || ""}
-                            onChange={(e) => updateRow(row.id, { amount: Number(e.target.value) || 0 })}
-                            placeholder="0"
-                            style={styles.amountInput}
-                          />
+                        <div style={styles.tableCell}>
+                          <div style={{ display: 'flex', gap: 6 }}>
+                            {sizingMode === 'notional' && (
+                              <select
+                                value={row.currency}
+                                onChange={(e) => updateRow(row.id, { currency: e.target.value })}
+                                aria-label="Currency"
+                                style={styles.currencySelect}
+                              >
+                                {rowCurrencies.map(c => <option key={c} value={c}>{c}</option>)}
+                              </select>
+                            )}
+                            <input
+                              type="number"
+                              step={sizingMode === 'weight' ? 0.01 : 1}
+                              value={row.amount || ""}
+                              onChange={(e) => updateRow(row.id, { amount: Number(e.target.value) || 0 })}
+                              placeholder="0"
+                              aria-label={sizingMode === 'notional' ? `Amount in ${row.currency}` : SIZING_MODE_LABELS[sizingMode]}
+                              style={styles.amountInput}
+                            />
+                          </div>
+                          {/* Converted notional, as sent to /analyze */}
+                          {sizingMode !== 'notional' && amt !== 0 && size?.notional != null && (
+                            <div style={styles.convertedSize}>
+                              ≈ {formatCurrency(size.notional, size.currency)}
+                              {sizingMode === 'shares' && size.unitValue !== null && ` @ ${size.unitValue.toLocaleString('en-US', { maximumFractionDigits: 2 })}`}
+                            </div>
+                          )}
                         </div>
 
                         {/* Direction Cell */}
@@ -1412,6 +2664,10 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                               </svg>
                               <span style={styles.resolvedSymbol}>{row.resolvedSymbol}</span>
                             </div>
+                          ) : row.candidates.length > 0 ? (
+                            <span style={{ ...styles.pendingStatus, color: '#f39c12' }}>
+                              {row.candidates.length} matches · select one
+                            </span>
                           ) : (
                             <span style={styles.pendingStatus}>
                               {row.query ? "Select ticker" : "Enter ticker"}
@@ -1423,11 +2679,11 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                         <div>
                           <button
                             onClick={() => removeRow(row.id)}
-                            disabled={rows.length <= 2}
+                            disabled={rows.length <= 1}
                             style={{
                               ...styles.removeButton,
-                              opacity: rows.length <= 2 ? 0.3 : 1,
-                              cursor: rows.length <= 2 ? "not-allowed" : "pointer",
+                              opacity: rows.length <= 1 ? 0.3 : 1,
+                              cursor: rows.length <= 1 ? "not-allowed" : "pointer",
                             }}
                           >
                             <svg width="18" height="18" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
@@ -1443,14 +2699,14 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
               </div>
 
               {/* Error Banner */}
-              {runError && (
+              {runError != null && (
                 <div style={styles.errorBanner}>
                   <svg width="20" height="20" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
                     <circle cx="12" cy="12" r="10" />
                     <line x1="12" y1="8" x2="12" y2="12" />
                     <line x1="12" y1="16" x2="12.01" y2="16" />
                   </svg>
-                  {runError}
+                  <ApiErrorMessage error={runError} fallback="Failed to run analysis" onRetry={runAnalysis} />
                 </div>
               )}
 
@@ -1466,13 +2722,31 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
                   Include Memo
                 </label>
               </div>
+              {(preflight.portfolio.length > 0 || rowIssueCounts.error + rowIssueCounts.warning > 0) && (
+                <div style={styles.preflightPanel} role="status">
+                  {preflight.portfolio.map((issue) => <IssueLine key={issue.message} issue={issue} />)}
+                  {rowIssueCounts.error > 0 && (
+                    <IssueLine issue={{
+                      severity: 'error',
+                      message: `${rowIssueCounts.error} problem${rowIssueCounts.error === 1 ? '' : 's'} in the positions table must be fixed before running.`,
+                    }} />
+                  )}
+                  {rowIssueCounts.error === 0 && rowIssueCounts.warning > 0 && (
+                    <IssueLine issue={{
+                      severity: 'warning',
+                      message: `${rowIssueCounts.warning} warning${rowIssueCounts.warning === 1 ? '' : 's'} in the positions table. You can still run the analysis.`,
+                    }} />
+                  )}
+                </div>
+              )}
               <button
                 onClick={runAnalysis}
-                disabled={running || !allResolved || !hasPositions}
+                disabled={!canRun}
+                title={preflight.pending ? "Waiting for prices and FX rates" : undefined}
                 style={{
                   ...styles.runButton,
-                  opacity: running || !allResolved || !hasPositions ? 0.6 : 1,
-                  cursor: running || !allResolved || !hasPositions ? "not-allowed" : "pointer",
+                  opacity: canRun ? 1 : 0.6,
+                  cursor: canRun ? "pointer" : "not-allowed",
                 }}
               >
                 {running ? (
@@ -1493,11 +2767,14 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
               {/* Report Section */}
               {html && (
                 <div id="report-section">
-                  <SaveAnalysisCard
-                    onSave={handleSaveAnalysis}
-                    saving={analysisSaving}
-                    saved={analysisSaved}
-                  />
+                  {permissions.canEdit && (
+                    <SaveAnalysisCard
+                      onSave={handleSaveAnalysis}
+                      saving={analysisSaving}
+                      saved={analysisSaved}
+                      autoSaved={autoSavedId !== null}
+                    />
+                  )}
                   <div style={styles.reportCard}>
                     <div style={styles.reportHeader}>
                       <h2 style={styles.cardTitle}>Analysis Report</h2>
@@ -1533,10 +2810,11 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
           {/* ============================================= */}
           {activeTab === 'upload' && (
             <UploadDataPanel 
-              apiBase={API_BASE}
-              onAnalysisComplete={(html) => {
+              authFetch={authFetch}
+              onAnalysisComplete={() => {
                 showToast('success', 'Analysis complete!');
               }}
+              onSaveToHistory={permissions.canEdit ? handleSaveCustomAnalysis : undefined}
             />
           )}
 
@@ -1548,9 +2826,55 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
               analyses={analyses}
               loading={analysesLoading}
               onView={handleViewAnalysis}
-              onDelete={deleteAnalysis}
+              onDelete={handleDeleteAnalysis}
+              onTogglePin={handleTogglePin}
               viewingHtml={viewingHistoryHtml}
               onCloseViewer={() => setViewingHistoryHtml(null)}
+              permissions={permissions}
+            />
+          )}
+
+          {/* ============================================= */}
+          {/* MONITOR TAB */}
+          {/* ============================================= */}
+          {activeTab === 'monitor' && (
+            <MonitorPanel
+              portfolios={portfolios}
+              analyses={analyses}
+              alerts={alerts}
+              loading={portfoliosLoading}
+              onToggleTracked={permissions.canEdit ? handleToggleTracked : undefined}
+              onOpen={(p) => { handleLoadPortfolio(p); setActiveTab('analysis'); }}
+              onShowAlerts={() => setActiveTab('alerts')}
+            />
+          )}
+
+          {/* ============================================= */}
+          {/* ALERTS TAB */}
+          {/* ============================================= */}
+          {activeTab === 'alerts' && (
+            <AlertsPanel
+              alerts={alerts}
+              loading={alertsLoading}
+              unreadCount={unreadCount}
+              onMarkRead={handleMarkAlertRead}
+              onMarkAllRead={handleMarkAllAlertsRead}
+              onDelete={handleDeleteAlert}
+              onOpenPortfolio={handleOpenAlertPortfolio}
+              live={alertsLive}
+              permissions={permissions}
+            />
+          )}
+
+          {/* ============================================= */}
+          {/* SETTINGS TAB */}
+          {/* ============================================= */}
+          {activeTab === 'settings' && (
+            <SettingsPanel
+              autoSave={autoSaveSettings}
+              onAutoSaveChange={updateAutoSaveSettings}
+              notifications={notificationSettings}
+              onNotificationsChange={updateNotificationSettings}
             />
           )}
 
@@ -1579,9 +2903,56 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
         onClose={() => setSaveModalOpen(false)}
         onSave={handleSavePortfolio}
         defaultName={portfolioName}
+        existing={selectedPortfolio}
+        folders={collectFolders(portfolios)}
         positionCount={currentPositions.length}
       />
 
+      {/* Portfolio History Modal */}
+      {historyPortfolio && (
+        <PortfolioHistory
+          portfolio={portfolios.find(p => p.id === historyPortfolio.id) ?? historyPortfolio}
+          api={api}
+          analyses={analyses}
+          onRestore={handleRestoreVersion}
+          onClose={() => setHistoryPortfolio(null)}
+        />
+      )}
+
+      {/* Position Import Modal */}
+      {importText !== null && (
+        <PositionImport
+          initialText={importText}
+          baseCurrency={baseCurrency}
+          sizingMode={sizingMode}
+          onImport={handleImportPositions}
+          onClose={() => setImportText(null)}
+        />
+      )}
+
+      {/* Portfolio Export Modal */}
+      {exportOpen && (
+        <PortfolioExport
+          editorName={portfolioName}
+          editorRows={exportRows}
+          editorBaseCurrency={baseCurrency}
+          portfolios={portfolios}
+          instruments={knownInstruments}
+          initialSource={selectedPortfolio && matchesSelectedPortfolio ? selectedPortfolio.id : EDITOR_SOURCE}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
+
+      {/* Alert Rules Modal */}
+      {rulesPortfolio && (
+        <AlertRulesEditor
+          portfolio={rulesPortfolio}
+          api={api}
+          knownRegimes={knownRegimes}
+          onClose={() => setRulesPortfolio(null)}
+        />
+      )}
+
       {/* Toast Container */}
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
     </div>
@@ -1669,6 +3040,20 @@ const styles: Record<string, React.CSSProperties> = {
     cursor: 'pointer',
     position: 'relative' as const,
   },
+  workspaceSwitcher: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    marginLeft: 8,
+  },
+  roleBadge: {
+    padding: '2px 8px',
+    borderRadius: 10,
+    background: 'rgba(79, 195, 247, 0.15)',
+    color: '#4fc3f7',
+    fontSize: 11,
+    fontWeight: 600,
+  },
   userButton: {
     marginLeft: 8,
   },
@@ -1783,9 +3168,29 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 700,
     color: '#fff',
   },
+  fxNotice: {
+    marginTop: -12,
+    marginBottom: 24,
+    color: '#f39c12',
+    fontSize: 12,
+  },
+  modeNotice: {
+    marginTop: -12,
+    marginBottom: 24,
+    color: '#888',
+    fontSize: 12,
+  },
+  fxRetry: {
+    background: 'none',
+    border: 'none',
+    color: '#4fc3f7',
+    cursor: 'pointer',
+    fontSize: 12,
+    padding: 0,
+  },
   tableHeader: {
     display: 'grid',
-    gridTemplateColumns: '2fr 1fr 100px 140px 50px',
+    gridTemplateColumns: '2fr 1.4fr 100px 140px 50px',
     gap: 16,
     padding: '12px 0',
     borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
@@ -1800,22 +3205,23 @@ const styles: Record<string, React.CSSProperties> = {
   },
   tableRow: {
     display: 'grid',
-    gridTemplateColumns: '2fr 1fr 100px 140px 50px',
+    gridTemplateColumns: '2fr 1.4fr 100px 140px 50px',
     gap: 16,
     padding: '16px 0',
     borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
     alignItems: 'start',
   },
   tableCell: { display: 'flex', flexDirection: 'column' as const, gap: 8 },
-  tickerInput: {
-    padding: '12px 14px',
+  convertedSize: { color: '#888', fontSize: 12, textAlign: 'right' as const },
+  currencySelect: {
+    padding: '12px 6px',
     borderRadius: 8,
     border: '1px solid rgba(255, 255, 255, 0.15)',
     background: 'rgba(0, 0, 0, 0.2)',
-    color: '#fff',
-    fontSize: 14,
+    color: '#ccc',
+    fontSize: 13,
+    fontFamily: 'monospace',
     outline: 'none',
-    width: '100%',
   },
   amountInput: {
     padding: '12px 14px',
@@ -1826,32 +3232,21 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 14,
     outline: 'none',
     width: '100%',
+    minWidth: 0,
     textAlign: 'right' as const,
   },
   searchingIndicator: { display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, color: '#888' },
   errorText: { fontSize: 12, color: '#e74c3c' },
-  candidatesList: {
-    background: 'rgba(0, 0, 0, 0.3)',
-    borderRadius: 8,
-    border: '1px solid rgba(255, 255, 255, 0.1)',
-    overflow: 'hidden',
-  },
-  candidateButton: {
-    width: '100%',
-    padding: '12px 14px',
-    border: 'none',
-    borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
-    background: 'transparent',
-    cursor: 'pointer',
+  preflightPanel: {
     display: 'flex',
-    alignItems: 'center',
-    gap: 12,
-    transition: 'background 0.2s',
-    textAlign: 'left' as const,
+    flexDirection: 'column' as const,
+    gap: 6,
+    padding: '12px 16px',
+    marginBottom: 16,
+    borderRadius: 8,
+    background: 'rgba(0, 0, 0, 0.2)',
+    border: '1px solid rgba(255, 255, 255, 0.08)',
   },
-  candidateSymbol: { fontWeight: 700, color: '#4fc3f7', fontSize: 13, minWidth: 70 },
-  candidateName: { color: '#fff', fontSize: 13, flex: 1 },
-  candidateMeta: { color: '#666', fontSize: 11 },
   directionBadge: {
     padding: '6px 12px',
     borderRadius: 6,
@@ -14,6 +14,7 @@ import {
   Position,
   Portfolio,
 } from "../hooks/useDatabase";
+import { createApiClient } from "../lib/api";
 
 // =============================================================================
 // TYPES
@@ -857,13 +858,15 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
   // DATABASE HOOKS
   // =============================================================================
   
+  const api = useMemo(() => createApiClient(authFetch), [authFetch]);
+
   const {
     portfolios,
     loading: portfoliosLoading,
     savePortfolio,
     deletePortfolio,
     refetch: refetchPortfolios,
-  } = usePortfolios(authFetch);
+  } = usePortfolios(api);
   
   const {
     analyses,
@@ -873,7 +876,7 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
     getAnalysis,
     deleteAnalysis,
     refetch: refetchAnalyses,
-  } = useAnalyses(authFetch);
+  } = useAnalyses(api);
   
   const {
     alerts,
@@ -883,7 +886,7 @@ export default function AnalysisApp({ authFetch }: AnalysisAppProps) {
     markAllAsRead,
     deleteAlert,
     refetch: refetchAlerts,
-  } = useAlerts(authFetch);
+  } = useAlerts(api);
 
   // =============================================================================
   // COMPUTED VALUES
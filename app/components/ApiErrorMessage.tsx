@@ -0,0 +1,78 @@
+/**
+ * ApiErrorMessage.tsx
+ *
+ * Renders any error thrown by the API client the same way everywhere:
+ * the human-readable message, FastAPI validation issues, the request id
+ * for support, and a retry button that counts down Retry-After.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ApiError, describeApiError, formatValidationIssue } from '../lib/api';
+
+interface ApiErrorMessageProps {
+  error: unknown;
+  fallback?: string;
+  onRetry?: () => void;
+}
+
+export default function ApiErrorMessage({ error, fallback = 'Something went wrong', onRetry }: ApiErrorMessageProps) {
+  const apiError = error instanceof ApiError ? error : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while a Retry-After window is open
+  useEffect(() => {
+    const retryAt = apiError?.retryAt;
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= retryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [apiError]);
+
+  const remaining = apiError ? apiError.retryRemaining(now) : 0;
+  const canRetry = onRetry && apiError?.isRetryable;
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 12, flex: 1 }}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4, flex: 1 }}>
+        <span>{describeApiError(error, fallback, now)}</span>
+        {apiError && apiError.validationErrors.length > 1 && (
+          <ul style={{ margin: 0, paddingLeft: 18, fontSize: 12, opacity: 0.85 }}>
+            {apiError.validationErrors.map((issue, i) => (
+              <li key={i}>{formatValidationIssue(issue)}</li>
+            ))}
+          </ul>
+        )}
+        {apiError?.requestId && (
+          <span style={{ fontSize: 11, opacity: 0.6, fontFamily: 'monospace' }}>
+            Request ID: {apiError.requestId}
+          </span>
+        )}
+      </div>
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          disabled={remaining > 0}
+          style={{
+            padding: '6px 12px',
+            borderRadius: 6,
+            border: '1px solid currentColor',
+            background: 'transparent',
+            color: 'inherit',
+            fontSize: 12,
+            fontWeight: 600,
+            whiteSpace: 'nowrap',
+            cursor: remaining > 0 ? 'not-allowed' : 'pointer',
+            opacity: remaining > 0 ? 0.6 : 1,
+          }}
+        >
+          {remaining > 0 ? `Retry in ${remaining}s` : 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+}
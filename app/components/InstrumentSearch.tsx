@@ -0,0 +1,315 @@
+/**
+ * InstrumentSearch.tsx
+ *
+ * Typeahead for the Instrument cell of the position editor. Candidates
+ * from /resolve are listed with type, exchange, currency and a confidence
+ * badge, and can be narrowed by asset class and exchange. Follows the
+ * ARIA combobox pattern: arrows move, Enter picks, Escape closes.
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { Candidate } from '../lib/api';
+import {
+  ASSET_CLASS_LABELS,
+  AssetClass,
+  CONFIDENCE_COLORS,
+  assetClassOf,
+  assetClassesIn,
+  confidenceFraction,
+  confidenceLevel,
+  exchangesIn,
+} from '../lib/instruments';
+
+interface InstrumentSearchProps {
+  /** Unique per row; used to build element ids for ARIA references. */
+  id: string;
+  query: string;
+  candidates: Candidate[];
+  resolvedSymbol: string | null;
+  /** Marks the input invalid for assistive tech; the message is shown by the caller. */
+  invalid?: boolean;
+  onQueryChange: (query: string) => void;
+  /** Look the query up now (blur, or Enter with nothing highlighted). */
+  onResolve: () => void;
+  onSelect: (candidate: Candidate) => void;
+  onPaste?: (e: React.ClipboardEvent<HTMLInputElement>) => void;
+}
+
+export default function InstrumentSearch({
+  id,
+  query,
+  candidates,
+  resolvedSymbol,
+  invalid = false,
+  onQueryChange,
+  onResolve,
+  onSelect,
+  onPaste,
+}: InstrumentSearchProps) {
+  const [open, setOpen] = useState(true);
+  const [assetFilter, setAssetFilter] = useState<AssetClass | null>(null);
+  const [exchangeFilter, setExchangeFilter] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const assetClasses = useMemo(() => assetClassesIn(candidates), [candidates]);
+  const exchanges = useMemo(() => exchangesIn(candidates), [candidates]);
+
+  // A filter that matches nothing in a new result set is ignored
+  const activeAsset = assetFilter && assetClasses.includes(assetFilter) ? assetFilter : null;
+  const activeExchange = exchangeFilter && exchanges.includes(exchangeFilter) ? exchangeFilter : null;
+
+  const visible = useMemo(() => candidates.filter(c =>
+    (!activeAsset || assetClassOf(c) === activeAsset) &&
+    (!activeExchange || c.exchange === activeExchange)
+  ), [candidates, activeAsset, activeExchange]);
+
+  const expanded = open && !resolvedSymbol && candidates.length > 0;
+  const active = expanded ? visible[Math.min(activeIndex, visible.length - 1)] : undefined;
+
+  const listboxId = `instrument-${id}-listbox`;
+  const optionId = (c: Candidate) => `instrument-${id}-option-${c.provider_symbol}`;
+
+  const moveTo = (index: number) => setActiveIndex(Math.max(0, Math.min(visible.length - 1, index)));
+
+  const select = (c: Candidate) => {
+    onSelect(c);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!expanded) {
+          setOpen(true);
+          setActiveIndex(0);
+        } else {
+          moveTo(activeIndex + 1);
+        }
+        break;
+      case 'ArrowUp':
+        if (!expanded) return;
+        e.preventDefault();
+        moveTo(activeIndex - 1);
+        break;
+      case 'Home':
+      case 'End':
+        if (!expanded) return;
+        e.preventDefault();
+        moveTo(e.key === 'Home' ? 0 : visible.length - 1);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (active) select(active);
+        else if (!resolvedSymbol) onResolve();
+        break;
+      case 'Escape':
+        if (!expanded) return;
+        e.preventDefault();
+        setOpen(false);
+        break;
+    }
+  };
+
+  const toggleAsset = (c: AssetClass) => {
+    setAssetFilter(activeAsset === c ? null : c);
+    setActiveIndex(0);
+  };
+
+  return (
+    <>
+      <input
+        value={query}
+        onChange={(e) => {
+          onQueryChange(e.target.value);
+          setOpen(true);
+          setActiveIndex(0);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => !resolvedSymbol && onResolve()}
+        onKeyDown={handleKeyDown}
+        onPaste={onPaste}
+        placeholder="Ticker or company name"
+        role="combobox"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={active ? optionId(active) : undefined}
+        aria-autocomplete="list"
+        aria-label="Instrument"
+        aria-invalid={invalid}
+        style={styles.input}
+      />
+
+      {/* Stays open after blur so unresolved rows keep showing their matches */}
+      {expanded && (
+        <div
+          style={styles.panel}
+          // Keep focus in the input while clicking options (the select needs its own focus)
+          onMouseDown={(e) => (e.target as HTMLElement).tagName !== 'SELECT' && e.preventDefault()}
+        >
+          {(assetClasses.length > 1 || exchanges.length > 1) && (
+            <div style={styles.filters}>
+              {assetClasses.length > 1 && assetClasses.map(c => (
+                <button
+                  key={c}
+                  type="button"
+                  tabIndex={-1}
+                  onClick={() => toggleAsset(c)}
+                  aria-pressed={activeAsset === c}
+                  style={{
+                    ...styles.chip,
+                    borderColor: activeAsset === c ? 'rgba(79, 195, 247, 0.6)' : 'transparent',
+                    color: activeAsset === c ? '#4fc3f7' : '#aaa',
+                  }}
+                >
+                  {ASSET_CLASS_LABELS[c]}
+                </button>
+              ))}
+              {exchanges.length > 1 && (
+                <select
+                  value={activeExchange ?? ''}
+                  onChange={(e) => { setExchangeFilter(e.target.value || null); setActiveIndex(0); }}
+                  aria-label="Filter by exchange"
+                  style={styles.exchangeSelect}
+                >
+                  <option value="">All exchanges</option>
+                  {exchanges.map(x => <option key={x} value={x}>{x}</option>)}
+                </select>
+              )}
+            </div>
+          )}
+
+          <div id={listboxId} role="listbox" aria-label="Matching instruments" style={{ maxHeight: 280, overflowY: 'auto' }}>
+            {visible.length === 0 ? (
+              <div style={styles.empty}>No matches for these filters</div>
+            ) : visible.map(c => {
+              const isActive = c === active;
+              const confidence = confidenceFraction(c.confidence);
+              return (
+                <div
+                  key={c.provider_symbol}
+                  id={optionId(c)}
+                  role="option"
+                  aria-selected={isActive}
+                  onClick={() => select(c)}
+                  onMouseMove={() => !isActive && setActiveIndex(visible.indexOf(c))}
+                  style={{ ...styles.option, background: isActive ? 'rgba(79, 195, 247, 0.12)' : 'transparent' }}
+                >
+                  <span style={styles.symbol}>{c.provider_symbol}</span>
+                  <span style={{ flex: 1, minWidth: 0 }}>
+                    <span style={styles.name}>{c.name}</span>
+                    <span style={styles.meta}>
+                      {ASSET_CLASS_LABELS[assetClassOf(c)]}
+                      {c.exchange && ` · ${c.exchange}`}
+                      {c.provider && ` · ${c.provider}`}
+                    </span>
+                  </span>
+                  {c.currency && <span style={styles.currency}>{c.currency}</span>}
+                  {confidence !== null && (
+                    <span
+                      title={`Match confidence ${Math.round(confidence * 100)}%`}
+                      style={{ ...styles.confidence, color: CONFIDENCE_COLORS[confidenceLevel(confidence)] }}
+                    >
+                      <span style={{ ...styles.confidenceDot, background: CONFIDENCE_COLORS[confidenceLevel(confidence)] }} />
+                      {Math.round(confidence * 100)}%
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  input: {
+    padding: '12px 14px',
+    borderRadius: 8,
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(0, 0, 0, 0.2)',
+    color: '#fff',
+    fontSize: 14,
+    outline: 'none',
+    width: '100%',
+  },
+  panel: {
+    background: 'rgba(0, 0, 0, 0.3)',
+    borderRadius: 8,
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  filters: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    padding: '8px 10px',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+  },
+  chip: {
+    padding: '2px 10px',
+    borderRadius: 10,
+    border: '1px solid transparent',
+    background: 'rgba(255,255,255,0.06)',
+    fontSize: 11,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  exchangeSelect: {
+    marginLeft: 'auto',
+    padding: '3px 6px',
+    borderRadius: 6,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(0,0,0,0.2)',
+    color: '#ccc',
+    fontSize: 11,
+    outline: 'none',
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 12,
+    padding: '10px 14px',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+    cursor: 'pointer',
+  },
+  symbol: { fontWeight: 700, color: '#4fc3f7', fontSize: 13, minWidth: 70 },
+  name: {
+    display: 'block',
+    color: '#fff',
+    fontSize: 13,
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  },
+  meta: { display: 'block', color: '#666', fontSize: 11, marginTop: 2 },
+  currency: {
+    padding: '2px 6px',
+    borderRadius: 4,
+    background: 'rgba(255,255,255,0.06)',
+    color: '#ccc',
+    fontSize: 11,
+    fontWeight: 600,
+    fontFamily: 'monospace',
+  },
+  confidence: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 4,
+    minWidth: 44,
+    fontSize: 11,
+    fontWeight: 600,
+    justifyContent: 'flex-end',
+  },
+  confidenceDot: { width: 6, height: 6, borderRadius: '50%' },
+  empty: { padding: 14, textAlign: 'center', color: '#666', fontSize: 12 },
+};
@@ -0,0 +1,256 @@
+/**
+ * MonitorPanel.tsx
+ *
+ * Overview of tracked portfolios: the latest regime, signal and validity
+ * from saved analyses, when each was last analyzed, and unread alerts.
+ * Tracking can be switched on or off per portfolio from here.
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { Alert, AnalysisSummary, Portfolio } from '../lib/api';
+import { formatDate } from '../lib/format';
+
+interface MonitorPanelProps {
+  portfolios: Portfolio[];
+  analyses: AnalysisSummary[];
+  alerts: Alert[];
+  loading: boolean;
+  /** Omitted when the user can't change tracking (viewers). */
+  onToggleTracked?: (id: string, tracked: boolean) => Promise<void>;
+  onOpen: (portfolio: Portfolio) => void;
+  onShowAlerts: () => void;
+}
+
+const VALIDITY_COLORS: Record<string, string> = {
+  valid: '#00b894',
+  degraded: '#f39c12',
+  invalid: '#e74c3c',
+};
+
+export default function MonitorPanel({
+  portfolios,
+  analyses,
+  alerts,
+  loading,
+  onToggleTracked,
+  onOpen,
+  onShowAlerts,
+}: MonitorPanelProps) {
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  const latestByPortfolio = useMemo(() => {
+    const latest = new Map<string, AnalysisSummary>();
+    for (const a of analyses) {
+      if (!a.portfolio_id) continue;
+      const current = latest.get(a.portfolio_id);
+      if (!current || new Date(a.created_at) > new Date(current.created_at)) latest.set(a.portfolio_id, a);
+    }
+    return latest;
+  }, [analyses]);
+
+  const unreadByPortfolio = useMemo(() => {
+    const counts = new Map<string, number>();
+    alerts.filter(a => !a.is_read).forEach(a => counts.set(a.portfolio_id, (counts.get(a.portfolio_id) ?? 0) + 1));
+    return counts;
+  }, [alerts]);
+
+  const tracked = portfolios.filter(p => p.is_tracked);
+  const untracked = portfolios.filter(p => !p.is_tracked);
+
+  const handleToggle = async (p: Portfolio) => {
+    if (!onToggleTracked) return;
+    setTogglingId(p.id);
+    try {
+      await onToggleTracked(p.id, !p.is_tracked);
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const trackingToggle = (p: Portfolio) => onToggleTracked && (
+    <label
+      style={{ ...styles.toggleLabel, opacity: togglingId === p.id ? 0.5 : 1 }}
+      onClick={e => e.stopPropagation()}
+    >
+      <input
+        type="checkbox"
+        checked={p.is_tracked}
+        onChange={() => handleToggle(p)}
+        disabled={togglingId === p.id}
+        style={{ width: 16, height: 16, cursor: 'pointer' }}
+      />
+      Tracking
+    </label>
+  );
+
+  return (
+    <div style={{ marginTop: 24 }}>
+      <div style={{ marginBottom: 24 }}>
+        <h2 style={{ color: '#fff', fontSize: 20, fontWeight: 600, margin: 0 }}>Monitor</h2>
+        <p style={{ color: '#666', fontSize: 14, marginTop: 4 }}>
+          Tracked portfolios are monitored and raise alerts
+        </p>
+      </div>
+
+      {loading ? (
+        <div style={{ ...styles.empty, padding: 60 }}>Loading portfolios...</div>
+      ) : tracked.length === 0 ? (
+        <div style={{ ...styles.empty, padding: 60 }}>
+          <h3 style={{ color: '#fff', fontSize: 16, fontWeight: 600, margin: '0 0 8px' }}>No tracked portfolios</h3>
+          <p style={{ color: '#666', fontSize: 14, margin: 0 }}>Turn on tracking for a saved portfolio to monitor it here</p>
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gap: 12 }}>
+          {tracked.map(p => {
+            const latest = latestByPortfolio.get(p.id);
+            const summary = latest?.result_summary;
+            const validity = summary?.validity;
+            const unread = unreadByPortfolio.get(p.id) ?? 0;
+
+            return (
+              <div key={p.id} style={styles.row} onClick={() => onOpen(p)}>
+                <div style={{ flex: '1 1 200px', minWidth: 0 }}>
+                  <div style={{ color: '#fff', fontWeight: 600, fontSize: 15 }}>
+                    {p.name}
+                    {p.is_default && <span style={{ color: '#f39c12', fontSize: 12, marginLeft: 8 }}>★</span>}
+                  </div>
+                  <div style={{ color: '#666', fontSize: 12, marginTop: 4 }}>
+                    {p.positions.length} position{p.positions.length !== 1 && 's'}
+                    {' · '}
+                    {latest ? `Analyzed ${formatDate(latest.created_at)}` : 'Never analyzed'}
+                  </div>
+                </div>
+
+                <div style={styles.cell}>
+                  <div style={styles.cellLabel}>Regime</div>
+                  {summary?.regime ? (
+                    <span style={styles.regimeBadge}>{summary.regime}</span>
+                  ) : <span style={styles.none}>—</span>}
+                </div>
+
+                <div style={styles.cell}>
+                  <div style={styles.cellLabel}>Signal</div>
+                  {summary?.signal ? (
+                    <span style={{ color: '#ccc', fontSize: 13, fontWeight: 600, textTransform: 'uppercase' }}>{summary.signal}</span>
+                  ) : <span style={styles.none}>—</span>}
+                </div>
+
+                <div style={styles.cell}>
+                  <div style={styles.cellLabel}>Validity</div>
+                  {validity ? (
+                    <span style={{ color: VALIDITY_COLORS[validity.validity_state] ?? '#888', fontSize: 13, fontWeight: 600 }}>
+                      {validity.validity_state} · {validity.validity_score.toFixed(0)}
+                    </span>
+                  ) : <span style={styles.none}>—</span>}
+                </div>
+
+                <div style={styles.cell}>
+                  <div style={styles.cellLabel}>Alerts</div>
+                  {unread > 0 ? (
+                    <button
+                      onClick={e => { e.stopPropagation(); onShowAlerts(); }}
+                      style={styles.unreadBadge}
+                      title="Open Alerts"
+                    >
+                      {unread > 99 ? '99+' : unread} unread
+                    </button>
+                  ) : <span style={styles.none}>None</span>}
+                </div>
+
+                {trackingToggle(p)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!loading && untracked.length > 0 && (
+        <div style={{ marginTop: 32 }}>
+          <h3 style={{ color: '#888', fontSize: 13, fontWeight: 600, textTransform: 'uppercase', margin: '0 0 12px' }}>
+            Not tracked
+          </h3>
+          <div style={{ display: 'grid', gap: 8 }}>
+            {untracked.map(p => (
+              <div key={p.id} style={{ ...styles.row, padding: '12px 20px', opacity: 0.8 }} onClick={() => onOpen(p)}>
+                <div style={{ flex: 1, color: '#ccc', fontSize: 14 }}>
+                  {p.name}
+                  <span style={{ color: '#666', fontSize: 12, marginLeft: 8 }}>
+                    {p.positions.length} position{p.positions.length !== 1 && 's'}
+                  </span>
+                </div>
+                {trackingToggle(p)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  empty: {
+    textAlign: 'center',
+    color: '#666',
+    background: 'rgba(30, 42, 58, 0.5)',
+    borderRadius: 16,
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 24,
+    padding: 20,
+    background: 'rgba(30, 42, 58, 0.5)',
+    borderRadius: 12,
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    cursor: 'pointer',
+  },
+  cell: {
+    flex: '0 0 110px',
+  },
+  cellLabel: {
+    color: '#666',
+    fontSize: 11,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  none: {
+    color: '#555',
+    fontSize: 13,
+  },
+  regimeBadge: {
+    padding: '2px 8px',
+    borderRadius: 4,
+    background: 'rgba(79, 195, 247, 0.15)',
+    color: '#4fc3f7',
+    fontSize: 11,
+    fontWeight: 600,
+  },
+  unreadBadge: {
+    padding: '2px 8px',
+    borderRadius: 10,
+    border: 'none',
+    background: '#e74c3c',
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 700,
+    cursor: 'pointer',
+  },
+  toggleLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    color: '#888',
+    fontSize: 13,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+};
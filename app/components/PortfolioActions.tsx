@@ -0,0 +1,215 @@
+/**
+ * PortfolioActions.tsx
+ *
+ * "Actions" menu of the portfolio toolbar: duplicate the loaded portfolio
+ * (as-is or inverted), transform the editor rows (invert, scale to a
+ * target gross or net, rebalance to dollar- or beta-neutral), and export.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { formatCurrency } from '../lib/format';
+
+interface PortfolioActionsProps {
+  /** Name of the loaded saved portfolio, if any (enables duplicate). */
+  selectedName: string | null;
+  /** Editor exposures, in `currency` (the portfolio's base currency). */
+  gross: number;
+  net: number;
+  currency: string;
+  /** Dollar- and beta-neutral only make sense for a long/short book. */
+  hedgeable: boolean;
+  /** False when there are no non-zero rows to transform. */
+  canTransform: boolean;
+  onDuplicate: (inverted: boolean) => Promise<void>;
+  onInvert: () => void;
+  onScale: (target: number, basis: 'gross' | 'net') => void;
+  onDollarNeutral: () => void;
+  onBetaNeutral: () => Promise<void>;
+  onExport: () => void;
+}
+
+type ScaleBasis = 'gross' | 'net';
+
+export default function PortfolioActions({
+  selectedName,
+  gross,
+  net,
+  currency,
+  hedgeable,
+  canTransform,
+  onDuplicate,
+  onInvert,
+  onScale,
+  onDollarNeutral,
+  onBetaNeutral,
+  onExport,
+}: PortfolioActionsProps) {
+  const [open, setOpen] = useState(false);
+  const [scaling, setScaling] = useState<ScaleBasis | null>(null);
+  const [target, setTarget] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setScaling(null);
+  };
+
+  const run = async (action: () => void | Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      close();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startScaling = (basis: ScaleBasis) => {
+    setScaling(basis);
+    setTarget(String(Math.round(basis === 'gross' ? gross : net)));
+  };
+
+  const applyScale = () => {
+    const value = Number(target.replace(/[$€£¥,\s]/g, ''));
+    if (!scaling || !Number.isFinite(value)) return;
+    run(() => onScale(value, scaling));
+  };
+
+  const item = (label: string, onClick: () => void, disabled = false, hint?: string) => (
+    <button
+      role="menuitem"
+      onClick={onClick}
+      disabled={disabled || busy}
+      style={{ ...styles.item, opacity: disabled ? 0.4 : 1, cursor: disabled || busy ? 'not-allowed' : 'pointer' }}
+    >
+      <span>{label}</span>
+      {hint && <span style={{ color: '#666', fontSize: 12 }}>{hint}</span>}
+    </button>
+  );
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        style={styles.trigger}
+      >
+        <svg width="16" height="16" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+          <path d="M4 21v-7M4 10V3M12 21v-9M12 8V3M20 21v-5M20 12V3M1 14h6M9 8h6M17 16h6" />
+        </svg>
+        Actions
+      </button>
+
+      {open && (
+        <>
+          <div style={{ position: 'fixed', inset: 0, zIndex: 40 }} onClick={close} />
+          <div role="menu" style={styles.menu} onKeyDown={e => e.key === 'Escape' && close()}>
+            <div style={styles.section}>Saved portfolio</div>
+            {item('Duplicate', () => run(() => onDuplicate(false)), !selectedName)}
+            {item('Duplicate inverted', () => run(() => onDuplicate(true)), !selectedName)}
+
+            <div style={styles.section}>Editor rows</div>
+            {item('Invert all signs', () => run(onInvert), !canTransform)}
+            {item('Scale to gross…', () => startScaling('gross'), !canTransform, formatCurrency(gross, currency))}
+            {item('Scale to net…', () => startScaling('net'), !canTransform, formatCurrency(net, currency))}
+            {scaling && (
+              <div style={{ display: 'flex', gap: 8, padding: '8px 12px' }}>
+                <input
+                  autoFocus
+                  value={target}
+                  onChange={e => setTarget(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && applyScale()}
+                  inputMode="decimal"
+                  aria-label={`Target ${scaling} exposure in ${currency}`}
+                  style={styles.input}
+                />
+                <button onClick={applyScale} disabled={busy} style={styles.apply}>Apply</button>
+              </div>
+            )}
+            {item('Dollar-neutral', () => run(onDollarNeutral), !canTransform || !hedgeable, hedgeable ? 'Resize shorts' : 'Long/short only')}
+            {item('Beta-neutral', () => run(onBetaNeutral), !canTransform || !hedgeable, !hedgeable ? 'Long/short only' : busy ? 'Fetching betas…' : 'Resize shorts')}
+
+            <div style={styles.section}>Share</div>
+            {item('Export or share link…', () => { close(); onExport(); })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  trigger: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    padding: '10px 16px',
+    borderRadius: 10,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(255,255,255,0.05)',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+  menu: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    width: 260,
+    marginTop: 4,
+    padding: '4px 0',
+    background: 'rgba(30, 42, 58, 0.98)',
+    border: '1px solid rgba(255,255,255,0.15)',
+    borderRadius: 10,
+    zIndex: 50,
+  },
+  section: {
+    padding: '8px 12px 4px',
+    color: '#666',
+    fontSize: 11,
+    fontWeight: 600,
+    textTransform: 'uppercase',
+  },
+  item: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    width: '100%',
+    padding: '8px 12px',
+    background: 'none',
+    border: 'none',
+    color: '#fff',
+    fontSize: 14,
+    textAlign: 'left',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 10px',
+    borderRadius: 6,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(0,0,0,0.2)',
+    color: '#fff',
+    fontSize: 13,
+    outline: 'none',
+    textAlign: 'right',
+  },
+  apply: {
+    padding: '6px 12px',
+    borderRadius: 6,
+    border: 'none',
+    background: 'linear-gradient(135deg, #4fc3f7 0%, #29b6f6 100%)',
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,235 @@
+/**
+ * PortfolioExport.tsx
+ *
+ * Modal for getting positions out of the app: download the editor rows or
+ * any saved portfolio as CSV or JSON, or copy a share link that pre-fills
+ * another user's editor.
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { Candidate, Portfolio } from '../lib/api';
+import {
+  ExportFormat,
+  ExportRow,
+  buildShareLink,
+  downloadFile,
+  exportFilename,
+  toCsv,
+  toJson,
+} from '../lib/portfolioExport';
+import { DEFAULT_CURRENCY } from '../lib/currency';
+
+interface PortfolioExportProps {
+  editorName: string;
+  editorRows: ExportRow[];
+  editorBaseCurrency: string;
+  portfolios: Portfolio[];
+  /** Resolved instruments by provider symbol, to fill exchange for saved portfolios. */
+  instruments: Record<string, Candidate>;
+  initialSource: string;
+  onClose: () => void;
+}
+
+export const EDITOR_SOURCE = 'editor';
+
+export default function PortfolioExport({
+  editorName,
+  editorRows,
+  editorBaseCurrency,
+  portfolios,
+  instruments,
+  initialSource,
+  onClose,
+}: PortfolioExportProps) {
+  const [source, setSource] = useState(initialSource);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { name, baseCurrency, rows } = useMemo(() => {
+    const portfolio = portfolios.find(p => p.id === source);
+    if (!portfolio) return { name: editorName || 'Untitled portfolio', baseCurrency: editorBaseCurrency, rows: editorRows };
+    const base = portfolio.base_currency ?? DEFAULT_CURRENCY;
+    return {
+      name: portfolio.name,
+      baseCurrency: base,
+      rows: portfolio.positions.map(p => ({
+        ticker: p.ticker,
+        amount: p.amount,
+        provider_symbol: p.ticker,
+        exchange: instruments[p.ticker]?.exchange ?? null,
+        currency: p.currency ?? base,
+      })),
+    };
+  }, [source, portfolios, editorName, editorRows, editorBaseCurrency, instruments]);
+
+  const selectSource = (value: string) => {
+    setSource(value);
+    setShareLink(null);
+    setCopied(false);
+    setError(null);
+  };
+
+  const handleDownload = () => {
+    const content = format === 'csv' ? toCsv(rows) : toJson(name, rows);
+    downloadFile(exportFilename(name, format), content, format);
+  };
+
+  const handleShare = async () => {
+    setError(null);
+    let link: string;
+    try {
+      link = buildShareLink(window.location.href, {
+        name,
+        baseCurrency,
+        positions: rows
+          .filter(r => r.provider_symbol)
+          .map(r => ({ ticker: r.provider_symbol!, amount: r.amount, ...(r.currency ? { currency: r.currency } : {}) })),
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not build a share link');
+      return;
+    }
+    setShareLink(link);
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      setError('Could not copy the link. Copy it from the box above.');
+    }
+  };
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div style={styles.modal} onClick={e => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h3 style={{ color: '#fff', fontSize: 18, fontWeight: 600, margin: 0 }}>Export Portfolio</h3>
+        </div>
+
+        <div style={{ padding: 24 }}>
+          <label style={styles.label}>Portfolio</label>
+          <select value={source} onChange={e => selectSource(e.target.value)} style={styles.input}>
+            <option value={EDITOR_SOURCE}>Current editor rows</option>
+            {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <div style={{ color: '#666', fontSize: 13, marginTop: 6 }}>
+            {rows.length} position{rows.length !== 1 && 's'}
+          </div>
+
+          <label style={{ ...styles.label, marginTop: 16 }}>Format</label>
+          <div style={{ display: 'flex', gap: 16 }}>
+            {(['csv', 'json'] as ExportFormat[]).map(f => (
+              <label key={f} style={{ display: 'flex', alignItems: 'center', gap: 8, color: '#ccc', fontSize: 14, cursor: 'pointer' }}>
+                <input type="radio" name="export-format" checked={format === f} onChange={() => setFormat(f)} />
+                {f.toUpperCase()}
+              </label>
+            ))}
+          </div>
+
+          <label style={{ ...styles.label, marginTop: 20 }}>Share link</label>
+          <p style={{ color: '#666', fontSize: 13, margin: '0 0 8px' }}>
+            Opens the resolved positions in another user&apos;s editor. Their saved portfolios are not changed.
+          </p>
+          {shareLink && (
+            <input readOnly value={shareLink} onFocus={e => e.target.select()} style={{ ...styles.input, fontFamily: 'monospace', fontSize: 12 }} />
+          )}
+          {error && <div style={{ color: '#e74c3c', fontSize: 13, marginTop: 8 }}>{error}</div>}
+        </div>
+
+        <div style={styles.footer}>
+          <button onClick={handleShare} disabled={rows.length === 0} style={{ ...styles.secondaryButton, marginRight: 'auto' }}>
+            {copied ? 'Link copied' : 'Copy share link'}
+          </button>
+          <button onClick={onClose} style={styles.secondaryButton}>Close</button>
+          <button
+            onClick={handleDownload}
+            disabled={rows.length === 0}
+            style={{
+              ...styles.primaryButton,
+              cursor: rows.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: rows.length === 0 ? 0.6 : 1,
+            }}
+          >
+            Download {format.toUpperCase()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(0,0,0,0.7)',
+    zIndex: 100,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modal: {
+    background: 'linear-gradient(180deg, #1e2a3a 0%, #0f1419 100%)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    width: '100%',
+    maxWidth: 480,
+    overflow: 'hidden',
+  },
+  header: {
+    padding: '20px 24px',
+    borderBottom: '1px solid rgba(255,255,255,0.1)',
+  },
+  label: {
+    display: 'block',
+    color: '#888',
+    fontSize: 12,
+    fontWeight: 500,
+    marginBottom: 6,
+    textTransform: 'uppercase',
+  },
+  input: {
+    width: '100%',
+    padding: '10px 14px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(0,0,0,0.2)',
+    color: '#fff',
+    fontSize: 14,
+    outline: 'none',
+  },
+  footer: {
+    padding: '16px 24px',
+    borderTop: '1px solid rgba(255,255,255,0.1)',
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  secondaryButton: {
+    padding: '10px 20px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'transparent',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+  primaryButton: {
+    padding: '10px 20px',
+    borderRadius: 8,
+    border: 'none',
+    background: 'linear-gradient(135deg, #4fc3f7 0%, #29b6f6 100%)',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 600,
+  },
+};
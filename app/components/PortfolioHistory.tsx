@@ -0,0 +1,230 @@
+/**
+ * PortfolioHistory.tsx
+ *
+ * Version history of a saved portfolio: who changed it and when, what each
+ * version changed relative to the one before, and a one-click restore of
+ * any version into the editor.
+ */
+
+'use client';
+
+import React from 'react';
+import { usePortfolioVersions } from '../hooks/useDatabase';
+import type { AnalysisSummary, ApiClient, Portfolio, PortfolioVersion } from '../lib/api';
+import { diffPositions, grossOf, netOf } from '../lib/portfolioDiff';
+import { formatCurrency, formatDate } from '../lib/format';
+import { DEFAULT_CURRENCY, sharedCurrency } from '../lib/currency';
+
+interface PortfolioHistoryProps {
+  portfolio: Portfolio;
+  api: ApiClient;
+  /** Saved analyses, used to show how many runs used each version. */
+  analyses: AnalysisSummary[];
+  onRestore: (version: PortfolioVersion) => void;
+  onClose: () => void;
+}
+
+function formatDelta(value: number, currency: string): string {
+  if (value === 0) return '±0';
+  return `${value > 0 ? '+' : '−'}${formatCurrency(Math.abs(value), currency)}`;
+}
+
+export default function PortfolioHistory({ portfolio, api, analyses, onRestore, onClose }: PortfolioHistoryProps) {
+  const { versions, loading, error, refetch } = usePortfolioVersions(api, portfolio.id);
+  const baseCurrency = portfolio.base_currency ?? DEFAULT_CURRENCY;
+
+  const runsByVersion = new Map<number, number>();
+  analyses
+    .filter(a => a.portfolio_id === portfolio.id && a.portfolio_version != null)
+    .forEach(a => runsByVersion.set(a.portfolio_version!, (runsByVersion.get(a.portfolio_version!) ?? 0) + 1));
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div style={styles.modal} onClick={e => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h3 style={{ color: '#fff', fontSize: 18, fontWeight: 600, margin: 0 }}>Portfolio History</h3>
+          <p style={{ color: '#666', fontSize: 13, margin: '4px 0 0' }}>{portfolio.name}</p>
+        </div>
+
+        <div style={{ padding: '8px 24px', maxHeight: 460, overflowY: 'auto' }}>
+          {loading ? (
+            <div style={styles.empty}>Loading history...</div>
+          ) : error ? (
+            <div style={{ ...styles.empty, color: '#e74c3c' }}>
+              {error}{' '}
+              <button onClick={refetch} style={styles.linkButton}>Retry</button>
+            </div>
+          ) : versions.length === 0 ? (
+            <div style={styles.empty}>No versions recorded yet</div>
+          ) : (
+            versions.map((v, i) => {
+              const previous = versions[i + 1];
+              const diff = previous ? diffPositions(previous.positions, v.positions) : null;
+              const isCurrent = v.version === (portfolio.version ?? versions[0].version);
+              const runs = runsByVersion.get(v.version) ?? 0;
+              // Totals only add up when every position is in one currency
+              const totalsCurrency = sharedCurrency(v.positions, baseCurrency);
+              const deltaCurrency = previous && sharedCurrency([...v.positions, ...previous.positions], baseCurrency);
+              const currencyOf = (ticker: string) =>
+                [...v.positions, ...(previous?.positions ?? [])].find(p => p.ticker === ticker)?.currency ?? baseCurrency;
+
+              return (
+                <div key={v.id} style={styles.version}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+                    <span style={styles.versionBadge}>v{v.version}</span>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ color: '#fff', fontSize: 14, fontWeight: 500 }}>
+                        {v.changed_by_name || 'You'}
+                        <span style={{ color: '#666', fontWeight: 400 }}> · {formatDate(v.created_at)}</span>
+                        {isCurrent && <span style={{ color: '#00b894', fontSize: 11, fontWeight: 600, marginLeft: 8 }}>CURRENT</span>}
+                      </div>
+                      <div style={{ color: '#666', fontSize: 12, marginTop: 2 }}>
+                        {v.positions.length} position{v.positions.length !== 1 && 's'}
+                        {totalsCurrency && <>
+                          {' · '}Net {formatCurrency(netOf(v.positions), totalsCurrency)}
+                          {' · '}Gross {formatCurrency(grossOf(v.positions), totalsCurrency)}
+                        </>}
+                        {runs > 0 && ` · ${runs} analys${runs === 1 ? 'is' : 'es'}`}
+                      </div>
+                    </div>
+                    <button onClick={() => onRestore(v)} style={styles.restoreButton}>
+                      Restore
+                    </button>
+                  </div>
+
+                  {diff ? (
+                    <div style={styles.diff}>
+                      {diff.added.map(p => (
+                        <div key={`a-${p.ticker}`} style={{ color: '#00b894' }}>
+                          + {p.ticker} {formatCurrency(p.amount, currencyOf(p.ticker))}
+                        </div>
+                      ))}
+                      {diff.removed.map(p => (
+                        <div key={`r-${p.ticker}`} style={{ color: '#e74c3c' }}>
+                          − {p.ticker} {formatCurrency(p.amount, currencyOf(p.ticker))}
+                        </div>
+                      ))}
+                      {diff.changed.map(c => (
+                        <div key={`c-${c.ticker}`} style={{ color: '#f39c12' }}>
+                          ~ {c.ticker} {formatCurrency(c.from, currencyOf(c.ticker))} → {formatCurrency(c.to, currencyOf(c.ticker))}
+                        </div>
+                      ))}
+                      {v.name !== previous.name && (
+                        <div style={{ color: '#888' }}>Renamed from &ldquo;{previous.name}&rdquo;</div>
+                      )}
+                      {diff.added.length + diff.removed.length + diff.changed.length > 0 ? (
+                        deltaCurrency && (
+                          <div style={{ color: '#888', marginTop: 4 }}>
+                            Net {formatDelta(diff.netDelta, deltaCurrency)} · Gross {formatDelta(diff.grossDelta, deltaCurrency)}
+                          </div>
+                        )
+                      ) : v.name === previous.name && (
+                        <div style={{ color: '#666' }}>No position changes</div>
+                      )}
+                    </div>
+                  ) : (
+                    <div style={{ ...styles.diff, color: '#666' }}>Created</div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div style={styles.footer}>
+          <button onClick={onClose} style={styles.secondaryButton}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(0,0,0,0.7)',
+    zIndex: 100,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modal: {
+    background: 'linear-gradient(180deg, #1e2a3a 0%, #0f1419 100%)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    width: '100%',
+    maxWidth: 560,
+    overflow: 'hidden',
+  },
+  header: {
+    padding: '20px 24px',
+    borderBottom: '1px solid rgba(255,255,255,0.1)',
+  },
+  empty: {
+    padding: 20,
+    textAlign: 'center',
+    color: '#666',
+    fontSize: 13,
+  },
+  version: {
+    padding: '14px 0',
+    borderBottom: '1px solid rgba(255,255,255,0.05)',
+  },
+  versionBadge: {
+    padding: '2px 8px',
+    borderRadius: 4,
+    background: 'rgba(79, 195, 247, 0.15)',
+    color: '#4fc3f7',
+    fontSize: 12,
+    fontWeight: 600,
+    fontFamily: 'monospace',
+  },
+  diff: {
+    marginTop: 8,
+    marginLeft: 48,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    lineHeight: 1.6,
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    color: '#4fc3f7',
+    fontSize: 13,
+    cursor: 'pointer',
+    padding: '4px 6px',
+  },
+  restoreButton: {
+    padding: '6px 12px',
+    borderRadius: 6,
+    border: '1px solid rgba(79, 195, 247, 0.3)',
+    background: 'rgba(79, 195, 247, 0.1)',
+    color: '#4fc3f7',
+    fontSize: 12,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  footer: {
+    padding: '16px 24px',
+    borderTop: '1px solid rgba(255,255,255,0.1)',
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  secondaryButton: {
+    padding: '10px 20px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'transparent',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+};
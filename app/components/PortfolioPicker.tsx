@@ -0,0 +1,257 @@
+/**
+ * PortfolioPicker.tsx
+ *
+ * Dropdown panel of the portfolio toolbar: free-text search over name,
+ * description, tags and tickers, a tag filter, sorting, and folder groups.
+ * Arrow keys move through the list, Enter loads, Escape closes.
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Portfolio } from '../lib/api';
+import {
+  PORTFOLIO_SORT_LABELS,
+  PortfolioSort,
+  collectTags,
+  groupByFolder,
+  matchesQuery,
+  sortPortfolios,
+} from '../lib/portfolioSearch';
+
+interface PortfolioPickerProps {
+  portfolios: Portfolio[];
+  selectedId: string | null;
+  /** Portfolio id → ISO time of its newest saved analysis. */
+  lastAnalyzed: Record<string, string>;
+  onSelect: (portfolio: Portfolio) => void;
+  onClose: () => void;
+  /** Per-row action buttons (default, history, delete). */
+  renderActions: (portfolio: Portfolio) => React.ReactNode;
+}
+
+const LISTBOX_ID = 'portfolio-picker-listbox';
+const optionId = (id: string) => `portfolio-option-${id}`;
+
+export default function PortfolioPicker({
+  portfolios,
+  selectedId,
+  lastAnalyzed,
+  onSelect,
+  onClose,
+  renderActions,
+}: PortfolioPickerProps) {
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [sort, setSort] = useState<PortfolioSort>('updated');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const tags = useMemo(() => collectTags(portfolios), [portfolios]);
+
+  const groups = useMemo(() => {
+    const matching = portfolios.filter(p => matchesQuery(p, query) && (!tag || p.tags?.includes(tag)));
+    return groupByFolder(sortPortfolios(matching, sort, lastAnalyzed));
+  }, [portfolios, query, tag, sort, lastAnalyzed]);
+
+  // Keyboard order follows the rendered (grouped) order
+  const flat = useMemo(() => groups.flatMap(g => g.portfolios), [groups]);
+  const active = flat[Math.min(activeIndex, flat.length - 1)];
+
+  useEffect(() => {
+    if (!active) return;
+    document.getElementById(optionId(active.id))?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const moveTo = (index: number) => setActiveIndex(Math.max(0, Math.min(flat.length - 1, index)));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        moveTo(activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        moveTo(activeIndex - 1);
+        break;
+      case 'PageDown':
+        e.preventDefault();
+        moveTo(activeIndex + 8);
+        break;
+      case 'PageUp':
+        e.preventDefault();
+        moveTo(activeIndex - 8);
+        break;
+      case 'Enter':
+        // Buttons inside the panel handle their own Enter
+        if ((e.target as HTMLElement).tagName === 'BUTTON') return;
+        e.preventDefault();
+        if (active) onSelect(active);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div style={styles.panel} onKeyDown={handleKeyDown}>
+      {/* Search + sort */}
+      <div style={{ display: 'flex', gap: 8, padding: 10, borderBottom: '1px solid rgba(255,255,255,0.08)' }}>
+        <input
+          autoFocus
+          value={query}
+          onChange={e => { setQuery(e.target.value); setActiveIndex(0); }}
+          placeholder="Search name, ticker, tag..."
+          role="combobox"
+          aria-expanded
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={active ? optionId(active.id) : undefined}
+          aria-autocomplete="list"
+          style={{ ...styles.input, flex: 1 }}
+        />
+        <select
+          value={sort}
+          onChange={e => { setSort(e.target.value as PortfolioSort); setActiveIndex(0); }}
+          aria-label="Sort portfolios"
+          style={{ ...styles.input, width: 130 }}
+        >
+          {(Object.keys(PORTFOLIO_SORT_LABELS) as PortfolioSort[]).map(s => (
+            <option key={s} value={s}>{PORTFOLIO_SORT_LABELS[s]}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Tag filter */}
+      {tags.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, padding: '8px 10px', borderBottom: '1px solid rgba(255,255,255,0.08)' }}>
+          {tags.map(t => (
+            <button
+              key={t}
+              onClick={() => { setTag(tag === t ? null : t); setActiveIndex(0); }}
+              aria-pressed={tag === t}
+              style={{
+                ...styles.tag,
+                cursor: 'pointer',
+                border: tag === t ? '1px solid rgba(79, 195, 247, 0.6)' : '1px solid transparent',
+                color: tag === t ? '#4fc3f7' : '#aaa',
+              }}
+            >
+              #{t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Results */}
+      <div id={LISTBOX_ID} role="listbox" aria-label="Saved portfolios" style={{ maxHeight: 420, overflowY: 'auto' }}>
+        {portfolios.length === 0 ? (
+          <div style={styles.empty}>No saved portfolios</div>
+        ) : flat.length === 0 ? (
+          <div style={styles.empty}>No portfolios match</div>
+        ) : (
+          groups.map(group => (
+            <div key={group.folder ?? ''} role="group" aria-label={group.folder ?? 'Unfiled'}>
+              {(group.folder || groups.length > 1) && (
+                <div style={styles.folderHeader}>
+                  {group.folder ?? 'Unfiled'}
+                  <span style={{ color: '#555', marginLeft: 6 }}>{group.portfolios.length}</span>
+                </div>
+              )}
+              {group.portfolios.map(p => {
+                const isActive = p.id === active?.id;
+                return (
+                  <div
+                    key={p.id}
+                    id={optionId(p.id)}
+                    role="option"
+                    aria-selected={p.id === selectedId}
+                    onClick={() => onSelect(p)}
+                    onMouseMove={() => !isActive && setActiveIndex(flat.indexOf(p))}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      padding: '10px 16px',
+                      cursor: 'pointer',
+                      borderBottom: '1px solid rgba(255,255,255,0.05)',
+                      background: isActive
+                        ? 'rgba(79, 195, 247, 0.15)'
+                        : p.id === selectedId ? 'rgba(79, 195, 247, 0.08)' : 'transparent',
+                    }}
+                  >
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ color: '#fff', fontWeight: 500, fontSize: 14 }}>{p.name}</div>
+                      <div style={{ color: '#666', fontSize: 12, marginTop: 2, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                        {p.positions.length} position{p.positions.length !== 1 && 's'}
+                        {p.positions.length > 0 && ` · ${p.positions.slice(0, 4).map(x => x.ticker).join(', ')}${p.positions.length > 4 ? '…' : ''}`}
+                        {p.is_default && <span style={{ color: '#f39c12', marginLeft: 8 }}>★ Default</span>}
+                      </div>
+                      {p.tags && p.tags.length > 0 && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 4 }}>
+                          {p.tags.map(t => <span key={t} style={styles.tag}>#{t}</span>)}
+                        </div>
+                      )}
+                    </div>
+                    {renderActions(p)}
+                  </div>
+                );
+              })}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    position: 'absolute',
+    top: '100%',
+    left: 0,
+    width: 420,
+    maxWidth: 'calc(100vw - 48px)',
+    marginTop: 4,
+    background: 'rgba(30, 42, 58, 0.98)',
+    border: '1px solid rgba(255,255,255,0.15)',
+    borderRadius: 10,
+    overflow: 'hidden',
+    zIndex: 50,
+  },
+  input: {
+    padding: '8px 10px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(0,0,0,0.2)',
+    color: '#fff',
+    fontSize: 13,
+    outline: 'none',
+  },
+  tag: {
+    padding: '2px 8px',
+    borderRadius: 10,
+    background: 'rgba(255,255,255,0.06)',
+    color: '#aaa',
+    fontSize: 11,
+  },
+  folderHeader: {
+    padding: '8px 16px 4px',
+    color: '#888',
+    fontSize: 11,
+    fontWeight: 600,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    background: 'rgba(0,0,0,0.15)',
+  },
+  empty: {
+    padding: 20,
+    textAlign: 'center',
+    color: '#666',
+    fontSize: 13,
+  },
+};
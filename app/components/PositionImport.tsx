@@ -0,0 +1,248 @@
+/**
+ * PositionImport.tsx
+ *
+ * Modal for bulk-loading editor rows: paste "ticker, amount" lines copied
+ * from Excel or elsewhere, or drop a CSV. Shows a preview of what will be
+ * imported and which lines were skipped before anything is resolved.
+ */
+
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  IMPORT_FILE_ACCEPT,
+  ImportedPosition,
+  parsePositions,
+  readPositionsFile,
+} from '../lib/positionImport';
+import { SizingMode, formatSize } from '../lib/sizing';
+
+export type ImportMode = 'replace' | 'append';
+
+interface PositionImportProps {
+  /** Prefilled text, e.g. a block pasted straight into a ticker input. */
+  initialText?: string;
+  /** Currency for positions the block doesn't give one for. */
+  baseCurrency: string;
+  /** Amounts are read as notionals, share counts or weights. */
+  sizingMode: SizingMode;
+  onImport: (positions: ImportedPosition[], mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 8;
+
+export default function PositionImport({ initialText = '', baseCurrency, sizingMode, onImport, onClose }: PositionImportProps) {
+  const [text, setText] = useState(initialText);
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [dragging, setDragging] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { positions, skipped } = useMemo(() => parsePositions(text), [text]);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError(null);
+    try {
+      setText(await readPositionsFile(file));
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : 'Could not read file');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    loadFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div style={styles.modal} onClick={e => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h3 style={{ color: '#fff', fontSize: 18, fontWeight: 600, margin: 0 }}>Import Positions</h3>
+          <p style={{ color: '#666', fontSize: 13, margin: '4px 0 0' }}>
+            One position per line: ticker, then amount. Negative amounts are shorts.
+          </p>
+        </div>
+
+        <div style={{ padding: 24 }}>
+          <div
+            onDragOver={e => { e.preventDefault(); setDragging(true); }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+            style={{
+              ...styles.dropZone,
+              borderColor: dragging ? 'rgba(79, 195, 247, 0.6)' : 'rgba(255,255,255,0.15)',
+            }}
+          >
+            <textarea
+              autoFocus
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder={'AAPL\t1,000,000\nMSFT\t-1,000,000'}
+              rows={8}
+              aria-label="Positions to import"
+              style={styles.textarea}
+            />
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 8 }}>
+              <span style={{ color: '#666', fontSize: 12 }}>Paste from Excel, or drop a CSV file here</span>
+              <button onClick={() => fileInputRef.current?.click()} style={styles.linkButton}>Choose file…</button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={IMPORT_FILE_ACCEPT}
+                onChange={e => { loadFile(e.target.files?.[0]); e.target.value = ''; }}
+                style={{ display: 'none' }}
+              />
+            </div>
+          </div>
+          {fileError && <div style={{ color: '#e74c3c', fontSize: 13, marginTop: 8 }}>{fileError}</div>}
+
+          {/* Preview */}
+          {text.trim() && (
+            <div style={{ marginTop: 16 }}>
+              <div style={{ color: '#888', fontSize: 12, fontWeight: 500, textTransform: 'uppercase', marginBottom: 6 }}>
+                {positions.length} position{positions.length !== 1 && 's'} found
+              </div>
+              <div style={styles.preview}>
+                {positions.slice(0, PREVIEW_LIMIT).map((p, i) => (
+                  <div key={i} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span style={{ color: '#fff' }}>{p.query}</span>
+                    <span style={{ color: p.amount >= 0 ? '#00b894' : '#e74c3c' }}>{formatSize(p.amount, sizingMode, p.currency ?? baseCurrency)}</span>
+                  </div>
+                ))}
+                {positions.length > PREVIEW_LIMIT && (
+                  <div style={{ color: '#666' }}>…and {positions.length - PREVIEW_LIMIT} more</div>
+                )}
+              </div>
+              {skipped.length > 0 && (
+                <div style={{ color: '#f39c12', fontSize: 12, marginTop: 8 }}>
+                  {skipped.length} line{skipped.length !== 1 && 's'} skipped:{' '}
+                  {skipped.slice(0, 3).map(s => `line ${s.line} (${s.reason})`).join(', ')}
+                  {skipped.length > 3 && '…'}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: 16, marginTop: 16 }}>
+            {(['replace', 'append'] as ImportMode[]).map(m => (
+              <label key={m} style={{ display: 'flex', alignItems: 'center', gap: 8, color: '#ccc', fontSize: 14, cursor: 'pointer' }}>
+                <input type="radio" name="import-mode" checked={mode === m} onChange={() => setMode(m)} />
+                {m === 'replace' ? 'Replace current rows' : 'Add to current rows'}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={styles.footer}>
+          <button onClick={onClose} style={styles.secondaryButton}>Cancel</button>
+          <button
+            onClick={() => onImport(positions, mode)}
+            disabled={positions.length === 0}
+            style={{
+              ...styles.primaryButton,
+              cursor: positions.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: positions.length === 0 ? 0.6 : 1,
+            }}
+          >
+            Import {positions.length > 0 && positions.length} Position{positions.length !== 1 && 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(0,0,0,0.7)',
+    zIndex: 100,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modal: {
+    background: 'linear-gradient(180deg, #1e2a3a 0%, #0f1419 100%)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    width: '100%',
+    maxWidth: 560,
+    overflow: 'hidden',
+  },
+  header: {
+    padding: '20px 24px',
+    borderBottom: '1px solid rgba(255,255,255,0.1)',
+  },
+  dropZone: {
+    padding: 12,
+    borderRadius: 10,
+    border: '1px dashed',
+    background: 'rgba(0,0,0,0.15)',
+  },
+  textarea: {
+    width: '100%',
+    padding: '12px 14px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(0,0,0,0.2)',
+    color: '#fff',
+    fontSize: 13,
+    fontFamily: 'monospace',
+    outline: 'none',
+    resize: 'vertical',
+  },
+  preview: {
+    maxHeight: 180,
+    overflowY: 'auto',
+    padding: '8px 12px',
+    borderRadius: 8,
+    background: 'rgba(0,0,0,0.2)',
+    fontSize: 13,
+    fontFamily: 'monospace',
+    lineHeight: 1.7,
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    color: '#4fc3f7',
+    fontSize: 13,
+    cursor: 'pointer',
+    padding: '4px 6px',
+  },
+  footer: {
+    padding: '16px 24px',
+    borderTop: '1px solid rgba(255,255,255,0.1)',
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  secondaryButton: {
+    padding: '10px 20px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'transparent',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+  primaryButton: {
+    padding: '10px 20px',
+    borderRadius: 8,
+    border: 'none',
+    background: 'linear-gradient(135deg, #4fc3f7 0%, #29b6f6 100%)',
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 600,
+  },
+};
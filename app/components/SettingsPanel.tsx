@@ -0,0 +1,271 @@
+/**
+ * SettingsPanel.tsx
+ *
+ * User preferences for the analysis workspace. Settings are stored per
+ * browser through the hooks in useSettings.ts.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { AutoSaveSettings, NotificationSettings } from '../hooks/useSettings';
+import type { Alert } from '../lib/api';
+import {
+  ALERT_TYPE_LABELS,
+  getNotificationPermission,
+  requestNotificationPermission,
+} from '../lib/alerts';
+
+interface SettingsPanelProps {
+  autoSave: AutoSaveSettings;
+  onAutoSaveChange: (patch: Partial<AutoSaveSettings>) => void;
+  notifications: NotificationSettings;
+  onNotificationsChange: (patch: Partial<NotificationSettings>) => void;
+}
+
+const PERMISSION_HINTS: Record<string, string> = {
+  default: 'Your browser will ask for permission when you turn this on.',
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings, then turn this on again.',
+  unsupported: 'This browser does not support desktop notifications.',
+};
+
+function parseLimit(value: string): number | null {
+  const n = Math.floor(Number(value));
+  return value.trim() === '' || !Number.isFinite(n) || n <= 0 ? null : n;
+}
+
+/**
+ * Number input for a retention limit. Limits delete runs, so the value is
+ * only committed on blur or Enter, never from a partly typed number.
+ */
+function LimitInput({
+  value,
+  onCommit,
+  disabled,
+}: {
+  value: number | null;
+  onCommit: (value: number | null) => void;
+  disabled: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const next = parseLimit(draft);
+    setDraft(null);
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <input
+      type="number"
+      min={1}
+      value={draft ?? value ?? ''}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      disabled={disabled}
+      placeholder="∞"
+      style={styles.numberInput}
+    />
+  );
+}
+
+export default function SettingsPanel({
+  autoSave,
+  onAutoSaveChange,
+  notifications,
+  onNotificationsChange,
+}: SettingsPanelProps) {
+  const [permission, setPermission] = useState(getNotificationPermission);
+  const notificationsActive = notifications.enabled && permission === 'granted';
+
+  const handleNotificationsToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      onNotificationsChange({ enabled: false });
+      return;
+    }
+    const result = permission === 'default' ? await requestNotificationPermission() : permission;
+    setPermission(result);
+    onNotificationsChange({ enabled: result === 'granted' });
+  };
+
+  const toggleAlertType = (type: Alert['alert_type'], checked: boolean) => {
+    const others = notifications.alertTypes.filter(t => t !== type);
+    onNotificationsChange({ alertTypes: checked ? [...others, type] : others });
+  };
+
+  return (
+    <div style={{ marginTop: 24 }}>
+      <div style={{ marginBottom: 24 }}>
+        <h2 style={{ color: '#fff', fontSize: 20, fontWeight: 600, margin: 0 }}>Settings</h2>
+        <p style={{ color: '#666', fontSize: 14, marginTop: 4 }}>Preferences are saved in this browser</p>
+      </div>
+
+      {/* Auto-save */}
+      <div style={styles.card}>
+        <div style={styles.cardHeader}>
+          <div>
+            <h3 style={styles.cardTitle}>Auto-save analyses</h3>
+            <p style={styles.cardSubtitle}>
+              Save every successful Markets run to History. Runs you save manually are pinned and never cleaned up.
+            </p>
+          </div>
+          <label style={styles.toggleLabel}>
+            <input
+              type="checkbox"
+              checked={autoSave.enabled}
+              onChange={(e) => onAutoSaveChange({ enabled: e.target.checked })}
+              style={{ width: 18, height: 18, cursor: 'pointer' }}
+            />
+            {autoSave.enabled ? 'On' : 'Off'}
+          </label>
+        </div>
+        <div style={{ ...styles.cardBody, opacity: autoSave.enabled ? 1 : 0.5 }}>
+          <div style={styles.fieldRow}>
+            <div>
+              <div style={styles.fieldLabel}>Keep last runs per portfolio</div>
+              <div style={styles.fieldHint}>Older auto-saved runs of the same portfolio are deleted. Leave empty for no limit.</div>
+            </div>
+            <LimitInput
+              value={autoSave.keepLastPerPortfolio}
+              onCommit={(keepLastPerPortfolio) => onAutoSaveChange({ keepLastPerPortfolio })}
+              disabled={!autoSave.enabled}
+            />
+          </div>
+          <div style={styles.fieldRow}>
+            <div>
+              <div style={styles.fieldLabel}>Delete after (days)</div>
+              <div style={styles.fieldHint}>Auto-saved runs older than this are deleted. Leave empty to keep them.</div>
+            </div>
+            <LimitInput
+              value={autoSave.deleteAfterDays}
+              onCommit={(deleteAfterDays) => onAutoSaveChange({ deleteAfterDays })}
+              disabled={!autoSave.enabled}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Desktop notifications */}
+      <div style={styles.card}>
+        <div style={styles.cardHeader}>
+          <div>
+            <h3 style={styles.cardTitle}>Desktop notifications</h3>
+            <p style={styles.cardSubtitle}>
+              Get notified about new alerts while Bavella is open in the background. Clicking a notification opens the portfolio.
+            </p>
+          </div>
+          <label style={{ ...styles.toggleLabel, cursor: permission === 'unsupported' ? 'not-allowed' : 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={notificationsActive}
+              onChange={(e) => handleNotificationsToggle(e.target.checked)}
+              disabled={permission === 'unsupported'}
+              style={{ width: 18, height: 18, cursor: 'inherit' }}
+            />
+            {notificationsActive ? 'On' : 'Off'}
+          </label>
+        </div>
+        <div style={{ ...styles.cardBody, opacity: notificationsActive ? 1 : 0.5 }}>
+          {permission !== 'granted' && (
+            <div style={{ ...styles.fieldHint, padding: '12px 0 0' }}>{PERMISSION_HINTS[permission]}</div>
+          )}
+          <div style={styles.fieldRow}>
+            <div>
+              <div style={styles.fieldLabel}>Critical alerts</div>
+              <div style={styles.fieldHint}>Always notified while notifications are on.</div>
+            </div>
+            <input type="checkbox" checked disabled style={{ width: 16, height: 16 }} />
+          </div>
+          {(Object.keys(ALERT_TYPE_LABELS) as Alert['alert_type'][]).map(type => (
+            <div key={type} style={styles.fieldRow}>
+              <div style={styles.fieldLabel}>{ALERT_TYPE_LABELS[type]}</div>
+              <input
+                type="checkbox"
+                checked={notifications.alertTypes.includes(type)}
+                onChange={(e) => toggleAlertType(type, e.target.checked)}
+                disabled={!notificationsActive}
+                style={{ width: 16, height: 16, cursor: 'pointer' }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  card: {
+    background: 'rgba(30, 42, 58, 0.5)',
+    borderRadius: 16,
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    marginBottom: 24,
+    overflow: 'hidden',
+  },
+  cardHeader: {
+    padding: '20px 24px',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 24,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 600,
+    color: '#fff',
+    margin: 0,
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#666',
+    margin: '4px 0 0',
+  },
+  cardBody: {
+    padding: '8px 24px',
+  },
+  toggleLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    color: '#888',
+    fontSize: 14,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  fieldRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 24,
+    padding: '16px 0',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+  },
+  fieldLabel: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 500,
+  },
+  fieldHint: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  numberInput: {
+    width: 100,
+    padding: '10px 12px',
+    borderRadius: 8,
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(0, 0, 0, 0.2)',
+    color: '#fff',
+    fontSize: 14,
+    outline: 'none',
+    textAlign: 'right',
+  },
+};
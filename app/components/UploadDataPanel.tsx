@@ -7,40 +7,42 @@
 
 'use client';
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import {
+  createApiClient,
+  AuthFetch,
+  UploadValidationData,
+  UploadValidationResult as ValidationResult,
+} from '../lib/api';
+import ApiErrorMessage from './ApiErrorMessage';
 
 // Types
-interface ValidationData {
-  series: string[];
-  row_count: number;
-  date_status: 'detected' | 'sequential' | null;
-  date_range: [string, string] | null;
-  frequency: string | null;
-}
-
-interface ValidationResult {
-  valid: boolean;
-  errors: string[];
-  warnings: string[];
-  data: ValidationData | null;
-}
-
 interface SeriesWeight {
   name: string;
   weight: number;
   include: boolean;
 }
 
+/** What gets handed to History when the user opts in to saving a report. */
+export interface CustomAnalysisReport {
+  name: string;
+  html: string;
+  weights: { name: string; weight: number }[];
+  /** Shape of the uploaded dataset; null when the user chose to drop it. */
+  dataSummary: Pick<UploadValidationData, 'row_count' | 'date_range' | 'frequency'> | null;
+}
+
 interface UploadDataPanelProps {
-  apiBase: string;
+  authFetch: AuthFetch;
   onAnalysisComplete?: (html: string) => void;
+  onSaveToHistory?: (report: CustomAnalysisReport) => Promise<void>;
 }
 
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
 
-export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanelProps) {
+export function UploadDataPanel({ authFetch, onAnalysisComplete, onSaveToHistory }: UploadDataPanelProps) {
   // State
   const [file, setFile] = useState<File | null>(null);
   const [validation, setValidation] = useState<ValidationResult | null>(null);
@@ -51,12 +53,21 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
   
   const [isValidating, setIsValidating] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [htmlResult, setHtmlResult] = useState<string | null>(null);
   const [dataDeleted, setDataDeleted] = useState(false);
+
+  // Opt-in persistence of the finished report
+  const [lastReport, setLastReport] = useState<CustomAnalysisReport | null>(null);
+  const [keepDataSummary, setKeepDataSummary] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState<unknown>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const api = useMemo(() => createApiClient(authFetch), [authFetch]);
+
   // =============================================================================
   // FILE HANDLING
   // =============================================================================
@@ -68,23 +79,14 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
     setError(null);
     setHtmlResult(null);
     setDataDeleted(false);
+    setLastReport(null);
+    setSaved(false);
+    setSaveError(null);
     
     // Validate the file
     setIsValidating(true);
     try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      
-      const res = await fetch(`${apiBase}/validate/upload`, {
-        method: 'POST',
-        body: formData,
-      });
-      
-      if (!res.ok) {
-        throw new Error(`Validation failed: ${res.statusText}`);
-      }
-      
-      const result: ValidationResult = await res.json();
+      const result = await api.validateUpload(selectedFile);
       setValidation(result);
       
       if (result.valid && result.data && result.data.series.length > 0) {
@@ -95,12 +97,12 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
           include: true,
         })));
       }
-    } catch (e: any) {
-      setError(e.message || 'Failed to validate file');
+    } catch (e) {
+      setError(e);
     } finally {
       setIsValidating(false);
     }
-  }, [apiBase]);
+  }, [api]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -155,28 +157,29 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
     setDataDeleted(false);
     
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('weights', JSON.stringify(
-        Object.fromEntries(activeWeights.map(s => [s.name, s.weight]))
-      ));
-      formData.append('context', context);
-      formData.append('include_ai_memo', String(includeAiMemo));
-      formData.append('analysis_name', analysisName);
-      
-      const res = await fetch(`${apiBase}/analyze/custom`, {
-        method: 'POST',
-        body: formData,
+      const html = await api.analyzeCustom({
+        file,
+        weights: Object.fromEntries(activeWeights.map(s => [s.name, s.weight])),
+        context,
+        include_ai_memo: includeAiMemo,
+        analysis_name: analysisName,
       });
-      
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({ detail: res.statusText }));
-        throw new Error(errorData.detail || 'Analysis failed');
-      }
-      
-      const html = await res.text();
       setHtmlResult(html);
       setDataDeleted(true);
+      setLastReport({
+        name: analysisName,
+        html,
+        weights: activeWeights.map(s => ({ name: s.name, weight: s.weight })),
+        dataSummary: validation.data
+          ? {
+              row_count: validation.data.row_count,
+              date_range: validation.data.date_range,
+              frequency: validation.data.frequency,
+            }
+          : null,
+      });
+      setSaved(false);
+      setSaveError(null);
       
       if (onAnalysisComplete) {
         onAnalysisComplete(html);
@@ -186,12 +189,33 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
       setTimeout(() => {
         document.getElementById('analysis-results')?.scrollIntoView({ behavior: 'smooth' });
       }, 100);
-    } catch (e: any) {
-      setError(e.message || 'Analysis failed');
+    } catch (e) {
+      setError(e);
     } finally {
       setIsAnalyzing(false);
     }
-  }, [file, validation, seriesWeights, context, includeAiMemo, analysisName, apiBase, onAnalysisComplete]);
+  }, [file, validation, seriesWeights, context, includeAiMemo, analysisName, api, onAnalysisComplete]);
+
+  // =============================================================================
+  // SAVE TO HISTORY
+  // =============================================================================
+
+  const saveToHistory = useCallback(async () => {
+    if (!lastReport || !onSaveToHistory) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSaveToHistory({
+        ...lastReport,
+        dataSummary: keepDataSummary ? lastReport.dataSummary : null,
+      });
+      setSaved(true);
+    } catch (e) {
+      setSaveError(e);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [lastReport, keepDataSummary, onSaveToHistory]);
 
   // =============================================================================
   // RESET
@@ -206,6 +230,9 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
     setError(null);
     setHtmlResult(null);
     setDataDeleted(false);
+    setLastReport(null);
+    setSaved(false);
+    setSaveError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -225,7 +252,7 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
             {analysisName}
           </h1>
           <p style={{ fontSize: 16, color: '#666', marginTop: 8 }}>
-            Confidential analysis • Data not stored
+            {saved ? 'Report saved to History • Raw data not stored' : 'Confidential analysis • Data not stored'}
           </p>
         </div>
 
@@ -239,6 +266,46 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
             <span>Your data has been deleted. Only the analysis results remain.</span>
           </div>
         )}
+
+        {/* Save to History (opt-in) */}
+        {onSaveToHistory && lastReport && (
+          <div style={styles.saveCard}>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+              <span style={{ color: '#fff', fontSize: 14 }}>
+                {saved ? 'Report saved to History.' : 'Keep this report? Only the HTML report and series weights are stored.'}
+              </span>
+              {!saved && (
+                <label style={styles.checkboxLabel}>
+                  <input
+                    type="checkbox"
+                    checked={keepDataSummary}
+                    onChange={(e) => setKeepDataSummary(e.target.checked)}
+                    style={styles.checkbox}
+                  />
+                  <span>Also keep the data summary (row count, date range, frequency)</span>
+                </label>
+              )}
+              {saveError != null && (
+                <div style={{ color: '#f87171', fontSize: 13 }}>
+                  <ApiErrorMessage error={saveError} fallback="Failed to save report" onRetry={saveToHistory} />
+                </div>
+              )}
+            </div>
+            <button
+              onClick={saveToHistory}
+              disabled={isSaving || saved}
+              style={{
+                ...styles.primaryButton,
+                whiteSpace: 'nowrap',
+                cursor: isSaving || saved ? 'default' : 'pointer',
+                opacity: isSaving ? 0.7 : 1,
+                ...(saved ? { background: '#15803d' } : {}),
+              }}
+            >
+              {isSaving ? 'Saving...' : saved ? '✓ Saved' : 'Save report to History'}
+            </button>
+          </div>
+        )}
         
         {/* Report Card */}
         <div style={styles.reportContainer}>
@@ -298,7 +365,7 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
         <div style={styles.confidentialText}>
           <strong>Your data stays confidential</strong>
           <span style={{ display: 'block', fontSize: 12, marginTop: 2, opacity: 0.8 }}>
-            Nothing is stored. Analysis runs in memory, results returned, data deleted.
+            Analysis runs in memory, results returned, data deleted. Only reports you save to History are kept.
           </span>
         </div>
       </div>
@@ -306,7 +373,7 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
       {/* Template Download */}
       <div style={styles.templateSection}>
         <a 
-          href={`${apiBase}/template/csv`} 
+          href={api.templateCsvUrl} 
           download="bavella_template.csv"
           style={styles.templateLink}
         >
@@ -364,6 +431,13 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
         </div>
       )}
 
+      {/* Upload Request Error */}
+      {error != null && !validation && (
+        <div style={styles.errorBox}>
+          <ApiErrorMessage error={error} fallback="Failed to validate file" />
+        </div>
+      )}
+
       {/* Validation Errors */}
       {validation && !validation.valid && (
         <div style={styles.errorBox}>
@@ -506,9 +580,9 @@ export function UploadDataPanel({ apiBase, onAnalysisComplete }: UploadDataPanel
           </div>
 
           {/* Error Display */}
-          {error && (
+          {error != null && (
             <div style={styles.errorBox}>
-              {error}
+              <ApiErrorMessage error={error} fallback="Analysis failed" onRetry={runAnalysis} />
             </div>
           )}
 
@@ -792,6 +866,17 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: 13,
     marginBottom: 16,
   },
+  saveCard: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 16,
+    padding: 16,
+    background: '#0a1220',
+    border: '1px solid #1e3a5f',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
   reportContainer: {
     background: 'rgba(30, 42, 58, 0.5)',
     borderRadius: 16,
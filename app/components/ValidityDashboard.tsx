@@ -57,7 +57,7 @@ interface RecoveryEstimate {
   n_precedents: number;
 }
 
-interface ValiditySummary {
+export interface ValiditySummary {
   validity_score: number;
   validity_state: 'valid' | 'degraded' | 'invalid';
   is_valid: boolean;
@@ -70,7 +70,7 @@ interface ValiditySummary {
   insights: string[];
 }
 
-interface ValidityFull {
+export interface ValidityFull {
   validity_score: number;
   validity_state: string;
   is_valid: boolean;
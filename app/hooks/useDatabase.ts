@@ -3,135 +3,200 @@
  * Place in: frontend/app/hooks/useDatabase.ts
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { connectEventStream, StreamStatus } from '../lib/sse';
+import type { Quote, SizingMode } from '../lib/sizing';
+import type { AnalysisMode } from '../lib/analysisMode';
+import type {
+  ApiClient,
+  Position,
+  Portfolio,
+  PortfolioVersion,
+  UpdatePortfolioRequest,
+  AnalysisSummary,
+  AnalysisFull,
+  AnalysisResultSummary,
+  AnalysisSource,
+  Alert,
+  AlertRule,
+  CreateAlertRuleRequest,
+  UpdateAlertRuleRequest,
+} from '../lib/api';
+
+export type {
+  Position,
+  Portfolio,
+  PortfolioVersion,
+  AnalysisSummary,
+  AnalysisFull,
+  AnalysisResultSummary,
+  AnalysisSource,
+  Alert,
+  AlertRule,
+  AlertRuleCondition,
+} from '../lib/api';
 
 // =============================================================================
-// TYPES
+// WORKSPACE SCOPE
 // =============================================================================
 
-export interface Position {
-  ticker: string;
-  amount: number;
-}
-
-export interface Portfolio {
-  id: string;
-  user_id: string;
-  name: string;
-  description: string | null;
-  positions: Position[];
-  is_default: boolean;
-  is_tracked: boolean;
-  created_at: string;
-  updated_at: string;
+/**
+ * Returns a check for whether a workspace is still the active one, so a
+ * response that lands after a switch is dropped rather than shown in the
+ * wrong workspace.
+ */
+function useActiveWorkspace(workspaceId: string | null) {
+  const activeRef = useRef(workspaceId);
+  useEffect(() => {
+    activeRef.current = workspaceId;
+  }, [workspaceId]);
+  return useCallback((id: string | null) => activeRef.current === id, []);
 }
 
-export interface AnalysisSummary {
-  id: string;
-  user_id: string;
-  portfolio_id: string | null;
-  portfolio_name: string;
-  positions: Position[];
-  analysis_period_days: number;
-  result_summary: {
-    regime?: string;
-    signal?: string;
-    trend_score?: number;
-    z_score?: number;
-    rsi?: number;
-    cumulative_return?: number;
-  };
-  duration_ms: number | null;
-  created_at: string;
-  has_html_report: boolean;
-  has_ai_memo: boolean;
-}
+// =============================================================================
+// PORTFOLIOS HOOK
+// =============================================================================
 
-export interface AnalysisFull extends AnalysisSummary {
-  html_report: string | null;
-  ai_memo: string | null;
+/** Clears is_default on every portfolio except defaultId. */
+function withSingleDefault(portfolios: Portfolio[], defaultId: string): Portfolio[] {
+  return portfolios.map(p => p.id !== defaultId && p.is_default ? { ...p, is_default: false } : p);
 }
 
-export interface Alert {
-  id: string;
-  user_id: string;
-  portfolio_id: string;
-  portfolio_name: string | null;
-  alert_type: 'buy' | 'sell' | 'regime_change' | 'drawdown' | 'zscore_extreme';
-  severity: 'info' | 'warning' | 'critical';
-  signal_date: string;
-  message: string;
-  is_read: boolean;
-  created_at: string;
+/**
+ * The server can report several defaults (e.g. set from two devices at
+ * once). The most recently updated one wins; the rest are returned as stale.
+ */
+function reconcileDefaults(portfolios: Portfolio[]): { portfolios: Portfolio[]; stale: string[] } {
+  const defaults = portfolios
+    .filter(p => p.is_default)
+    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+  if (defaults.length <= 1) return { portfolios, stale: [] };
+  return {
+    portfolios: withSingleDefault(portfolios, defaults[0].id),
+    stale: defaults.slice(1).map(p => p.id),
+  };
 }
 
-type AuthFetch = (url: string, options?: RequestInit) => Promise<Response>;
-
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE?.trim() || 'http://localhost:8000';
-
-// =============================================================================
-// PORTFOLIOS HOOK
-// =============================================================================
-
-export function usePortfolios(authFetch: AuthFetch) {
+export function usePortfolios(api: ApiClient, workspaceId: string | null = null) {
   const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const isActive = useActiveWorkspace(workspaceId);
+
+  // Don't show the previous workspace's portfolios while the new ones load
+  const [loadedWorkspace, setLoadedWorkspace] = useState(workspaceId);
+  if (loadedWorkspace !== workspaceId) {
+    setLoadedWorkspace(workspaceId);
+    setPortfolios([]);
+    setLoading(true);
+  }
 
   const fetchPortfolios = useCallback(async () => {
     try {
       setLoading(true);
-      const res = await authFetch(`${API_BASE}/api/portfolios`);
-      if (!res.ok) throw new Error('Failed to fetch portfolios');
-      const data = await res.json();
-      setPortfolios(data.portfolios || []);
+      const data = await api.listPortfolios();
+      if (!isActive(workspaceId)) return;
+      const { portfolios: reconciled, stale } = reconcileDefaults(data.portfolios || []);
+      setPortfolios(reconciled);
       setError(null);
+      // Best effort; any leftover conflict is reconciled again on next fetch
+      stale.forEach(id => api.updatePortfolio(id, { is_default: false }).catch(() => {}));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      if (isActive(workspaceId)) setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
-      setLoading(false);
+      if (isActive(workspaceId)) setLoading(false);
     }
-  }, [authFetch]);
+  }, [api, workspaceId, isActive]);
 
   useEffect(() => {
     fetchPortfolios();
   }, [fetchPortfolios]);
 
+  // Clears the flag server-side on previous defaults; refetches to
+  // reconcile if that fails part-way.
+  const clearDefaults = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+    try {
+      await Promise.all(ids.map(id => api.updatePortfolio(id, { is_default: false })));
+    } catch {
+      await fetchPortfolios();
+    }
+  }, [api, fetchPortfolios]);
+
   const savePortfolio = useCallback(async (
     name: string,
     positions: Position[],
-    options?: { description?: string; is_default?: boolean; is_tracked?: boolean }
+    options?: {
+      description?: string;
+      is_default?: boolean;
+      is_tracked?: boolean;
+      tags?: string[];
+      folder?: string | null;
+      base_currency?: string;
+      sizing_mode?: SizingMode;
+      nav?: number | null;
+      analysis_mode?: AnalysisMode;
+    }
   ): Promise<Portfolio> => {
-    const res = await authFetch(`${API_BASE}/api/portfolios`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        name,
-        positions,
-        description: options?.description || null,
-        is_default: options?.is_default || false,
-        is_tracked: options?.is_tracked ?? true,
-      }),
+    const portfolio = await api.createPortfolio({
+      name,
+      positions,
+      base_currency: options?.base_currency,
+      sizing_mode: options?.sizing_mode,
+      nav: options?.nav,
+      analysis_mode: options?.analysis_mode,
+      description: options?.description || null,
+      is_default: options?.is_default || false,
+      is_tracked: options?.is_tracked ?? true,
+      tags: options?.tags ?? [],
+      folder: options?.folder || null,
     });
-    if (!res.ok) {
-      const err = await res.json().catch(() => ({}));
-      throw new Error(err.detail || 'Failed to save portfolio');
+    if (portfolio.is_default) {
+      const stale = portfolios.filter(p => p.is_default).map(p => p.id);
+      setPortfolios(prev => withSingleDefault([portfolio, ...prev], portfolio.id));
+      await clearDefaults(stale);
+    } else {
+      setPortfolios(prev => [portfolio, ...prev]);
     }
-    const portfolio = await res.json();
-    setPortfolios(prev => [portfolio, ...prev]);
     return portfolio;
-  }, [authFetch]);
+  }, [api, portfolios, clearDefaults]);
 
-  const deletePortfolio = useCallback(async (id: string): Promise<void> => {
-    const res = await authFetch(`${API_BASE}/api/portfolios/${id}`, {
-      method: 'DELETE',
+  // Optimistic: the patch shows immediately and is rolled back if the
+  // request fails. Making a portfolio the default un-defaults the others.
+  const updatePortfolio = useCallback(async (
+    id: string,
+    patch: UpdatePortfolioRequest
+  ): Promise<Portfolio> => {
+    const makesDefault = patch.is_default === true;
+    const affected = portfolios.filter(p => p.id === id || (makesDefault && p.is_default));
+    setPortfolios(prev => {
+      const next = prev.map(p => p.id === id ? { ...p, ...patch } : p);
+      return makesDefault ? withSingleDefault(next, id) : next;
     });
-    if (!res.ok) {
-      const err = await res.json().catch(() => ({}));
-      throw new Error(err.detail || 'Failed to delete portfolio');
+
+    let updated: Portfolio;
+    try {
+      updated = await api.updatePortfolio(id, patch);
+    } catch (err) {
+      setPortfolios(prev => prev.map(p => affected.find(a => a.id === p.id) ?? p));
+      throw err;
     }
+    setPortfolios(prev => prev.map(p => p.id === id ? updated : p));
+    if (makesDefault) {
+      await clearDefaults(affected.filter(p => p.id !== id).map(p => p.id));
+    }
+    return updated;
+  }, [api, portfolios, clearDefaults]);
+
+  const setDefaultPortfolio = useCallback(
+    (id: string, isDefault = true) => updatePortfolio(id, { is_default: isDefault }),
+    [updatePortfolio]
+  );
+
+  const deletePortfolio = useCallback(async (id: string): Promise<void> => {
+    await api.deletePortfolio(id);
     setPortfolios(prev => prev.filter(p => p.id !== id));
-  }, [authFetch]);
+  }, [api]);
 
   return {
     portfolios,
@@ -139,43 +204,291 @@ export function usePortfolios(authFetch: AuthFetch) {
     error,
     refetch: fetchPortfolios,
     savePortfolio,
+    updatePortfolio,
+    setDefaultPortfolio,
     deletePortfolio,
   };
 }
 
+// =============================================================================
+// PORTFOLIO VERSIONS HOOK
+// =============================================================================
+
+export function usePortfolioVersions(api: ApiClient, portfolioId: string | null) {
+  const [versions, setVersions] = useState<PortfolioVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Another portfolio's history is never shown, even while loading
+  const [loadedFor, setLoadedFor] = useState(portfolioId);
+  if (loadedFor !== portfolioId) {
+    setLoadedFor(portfolioId);
+    setVersions([]);
+    setError(null);
+  }
+
+  // Responses to a superseded request (older portfolio or refetch) are dropped
+  const latestRef = useRef(0);
+
+  const fetchVersions = useCallback(async () => {
+    const request = ++latestRef.current;
+    if (!portfolioId) {
+      setVersions([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      const data = await api.listPortfolioVersions(portfolioId);
+      if (latestRef.current !== request) return;
+      setVersions((data.versions || []).slice().sort((a, b) => b.version - a.version));
+      setError(null);
+    } catch (err) {
+      if (latestRef.current !== request) return;
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      if (latestRef.current === request) setLoading(false);
+    }
+  }, [api, portfolioId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  return {
+    versions,
+    loading,
+    error,
+    refetch: fetchVersions,
+  };
+}
+
+// =============================================================================
+// FX RATES HOOK
+// =============================================================================
+
+const NO_RATES: Record<string, number> = {};
+
+/**
+ * Rates into `base` for the given currencies. Only currencies other than
+ * the base are fetched; a request superseded by a newer one is dropped.
+ */
+export function useFxRates(api: ApiClient, base: string, currencies: string[]) {
+  // Rates are kept with the base they are quoted in, so a base change never
+  // shows totals converted with the previous base's rates
+  const [fetched, setFetched] = useState<{ key: string; base: string; rates: Record<string, number> } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRef = useRef('');
+
+  const symbols = [...new Set(currencies)].filter(c => c !== base).sort().join(',');
+  const key = `${base}:${symbols}`;
+
+  const fetchRates = useCallback(async () => {
+    const requestKey = `${base}:${symbols}`;
+    latestRef.current = requestKey;
+    if (!symbols) {
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await api.fxRates(base, symbols.split(','));
+      if (latestRef.current !== requestKey) return;
+      setFetched({ key: requestKey, base, rates: data.rates || {} });
+    } catch (err) {
+      if (latestRef.current !== requestKey) return;
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      if (latestRef.current === requestKey) setLoading(false);
+    }
+  }, [api, base, symbols]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  return {
+    rates: fetched?.base === base ? fetched.rates : NO_RATES,
+    // Also true for the render before a new request's effect has run
+    loading: loading || (symbols !== '' && fetched?.key !== key && !error),
+    error,
+    refetch: fetchRates,
+  };
+}
+
+// =============================================================================
+// LATEST PRICES HOOK
+// =============================================================================
+
+/**
+ * Latest prices for the given tickers, for share-count sizing. Prices
+ * already fetched stay available while a changed ticker list reloads.
+ */
+export function useLatestPrices(api: ApiClient, tickers: string[]) {
+  const [prices, setPrices] = useState<Record<string, Quote>>({});
+  const [fetchedFor, setFetchedFor] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRef = useRef('');
+
+  const symbols = [...new Set(tickers)].sort().join(',');
+
+  const fetchPrices = useCallback(async () => {
+    latestRef.current = symbols;
+    if (!symbols) {
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await api.prices(symbols.split(','));
+      if (latestRef.current !== symbols) return;
+      setPrices(prev => ({ ...prev, ...data.prices }));
+      setFetchedFor(symbols);
+    } catch (err) {
+      if (latestRef.current !== symbols) return;
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      if (latestRef.current === symbols) setLoading(false);
+    }
+  }, [api, symbols]);
+
+  useEffect(() => {
+    fetchPrices();
+  }, [fetchPrices]);
+
+  return {
+    prices,
+    // Also true for the render before a new request's effect has run
+    loading: loading || (symbols !== '' && fetchedFor !== symbols && !error),
+    error,
+    refetch: fetchPrices,
+  };
+}
+
+// =============================================================================
+// ALERT RULES HOOK
+// =============================================================================
+
+export function useAlertRules(api: ApiClient, portfolioId: string | null) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Another portfolio's rules are never shown, even while loading
+  const [loadedFor, setLoadedFor] = useState(portfolioId);
+  if (loadedFor !== portfolioId) {
+    setLoadedFor(portfolioId);
+    setRules([]);
+    setError(null);
+  }
+
+  // Responses to a superseded request (older portfolio or refetch) are
+  // dropped, as are edits that finish after the portfolio changed
+  const latestRef = useRef(0);
+  const portfolioRef = useRef(portfolioId);
+  useEffect(() => {
+    portfolioRef.current = portfolioId;
+  }, [portfolioId]);
+
+  const fetchRules = useCallback(async () => {
+    const request = ++latestRef.current;
+    if (!portfolioId) {
+      setRules([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      const data = await api.listAlertRules(portfolioId);
+      if (latestRef.current !== request) return;
+      setRules(data.rules || []);
+      setError(null);
+    } catch (err) {
+      if (latestRef.current !== request) return;
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      if (latestRef.current === request) setLoading(false);
+    }
+  }, [api, portfolioId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const createRule = useCallback(async (body: CreateAlertRuleRequest): Promise<AlertRule> => {
+    if (!portfolioId) throw new Error('No portfolio selected');
+    const rule = await api.createAlertRule(portfolioId, body);
+    if (portfolioRef.current === portfolioId) setRules(prev => [...prev, rule]);
+    return rule;
+  }, [api, portfolioId]);
+
+  const updateRule = useCallback(async (id: string, body: UpdateAlertRuleRequest): Promise<AlertRule> => {
+    if (!portfolioId) throw new Error('No portfolio selected');
+    const rule = await api.updateAlertRule(portfolioId, id, body);
+    if (portfolioRef.current === portfolioId) setRules(prev => prev.map(r => r.id === id ? rule : r));
+    return rule;
+  }, [api, portfolioId]);
+
+  const deleteRule = useCallback(async (id: string): Promise<void> => {
+    if (!portfolioId) throw new Error('No portfolio selected');
+    await api.deleteAlertRule(portfolioId, id);
+    if (portfolioRef.current === portfolioId) setRules(prev => prev.filter(r => r.id !== id));
+  }, [api, portfolioId]);
+
+  return {
+    rules,
+    loading,
+    error,
+    refetch: fetchRules,
+    createRule,
+    updateRule,
+    deleteRule,
+  };
+}
+
 // =============================================================================
 // ANALYSES HOOK
 // =============================================================================
 
-export function useAnalyses(authFetch: AuthFetch) {
+const ANALYSIS_PAGE_SIZE = 100;
+
+export function useAnalyses(api: ApiClient, workspaceId: string | null = null) {
   const [analyses, setAnalyses] = useState<AnalysisSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [total, setTotal] = useState(0);
+  const isActive = useActiveWorkspace(workspaceId);
+
+  const [loadedWorkspace, setLoadedWorkspace] = useState(workspaceId);
+  if (loadedWorkspace !== workspaceId) {
+    setLoadedWorkspace(workspaceId);
+    setAnalyses([]);
+    setTotal(0);
+    setLoading(true);
+  }
 
   const fetchAnalyses = useCallback(async (
     options?: { portfolio_id?: string; limit?: number; offset?: number }
   ) => {
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (options?.portfolio_id) params.set('portfolio_id', options.portfolio_id);
-      if (options?.limit) params.set('limit', options.limit.toString());
-      if (options?.offset) params.set('offset', options.offset.toString());
-      
-      const url = `${API_BASE}/api/analyses${params.toString() ? '?' + params : ''}`;
-      const res = await authFetch(url);
-      if (!res.ok) throw new Error('Failed to fetch analyses');
-      const data = await res.json();
+      const data = await api.listAnalyses(options);
+      if (!isActive(workspaceId)) return;
       setAnalyses(data.analyses || []);
       setTotal(data.total || 0);
       setError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      if (isActive(workspaceId)) setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
-      setLoading(false);
+      if (isActive(workspaceId)) setLoading(false);
     }
-  }, [authFetch]);
+  }, [api, workspaceId, isActive]);
 
   useEffect(() => {
     fetchAnalyses();
@@ -185,54 +498,61 @@ export function useAnalyses(authFetch: AuthFetch) {
     portfolioName: string,
     positions: Position[],
     analysisPeriodDays: number,
-    resultSummary: Record<string, unknown>,
+    resultSummary: AnalysisResultSummary | Record<string, unknown>,
     htmlReport: string,
-    options?: { ai_memo?: string; duration_ms?: number; portfolio_id?: string }
+    options?: {
+      ai_memo?: string;
+      duration_ms?: number;
+      portfolio_id?: string;
+      portfolio_version?: number | null;
+      source?: AnalysisSource;
+      auto_saved?: boolean;
+    }
   ): Promise<AnalysisSummary> => {
-    const res = await authFetch(`${API_BASE}/api/analyses`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        portfolio_name: portfolioName,
-        positions,
-        analysis_period_days: analysisPeriodDays,
-        result_summary: resultSummary,
-        html_report: htmlReport,
-        ai_memo: options?.ai_memo || null,
-        duration_ms: options?.duration_ms || null,
-        portfolio_id: options?.portfolio_id || null,
-      }),
+    const analysis = await api.createAnalysis({
+      portfolio_name: portfolioName,
+      positions,
+      analysis_period_days: analysisPeriodDays,
+      result_summary: resultSummary,
+      html_report: htmlReport,
+      ai_memo: options?.ai_memo || null,
+      duration_ms: options?.duration_ms || null,
+      portfolio_id: options?.portfolio_id || null,
+      portfolio_version: options?.portfolio_version ?? null,
+      source: options?.source ?? 'market',
+      auto_saved: options?.auto_saved ?? false,
+      is_pinned: !options?.auto_saved,
     });
-    if (!res.ok) {
-      const err = await res.json().catch(() => ({}));
-      throw new Error(err.detail || 'Failed to save analysis');
-    }
-    const analysis = await res.json();
     setAnalyses(prev => [analysis, ...prev]);
     setTotal(prev => prev + 1);
     return analysis;
-  }, [authFetch]);
+  }, [api]);
 
   const getAnalysis = useCallback(async (id: string): Promise<AnalysisFull> => {
-    const res = await authFetch(`${API_BASE}/api/analyses/${id}`);
-    if (!res.ok) {
-      const err = await res.json().catch(() => ({}));
-      throw new Error(err.detail || 'Failed to fetch analysis');
+    return api.getAnalysis(id);
+  }, [api]);
+
+  /** Every analysis in the workspace, not just the loaded page. */
+  const fetchAllAnalyses = useCallback(async (): Promise<AnalysisSummary[]> => {
+    const all: AnalysisSummary[] = [];
+    for (;;) {
+      const data = await api.listAnalyses({ limit: ANALYSIS_PAGE_SIZE, offset: all.length });
+      const page = data.analyses || [];
+      all.push(...page);
+      if (page.length === 0 || all.length >= (data.total || 0)) return all;
     }
-    return res.json();
-  }, [authFetch]);
+  }, [api]);
+
+  const pinAnalysis = useCallback(async (id: string, pinned = true): Promise<void> => {
+    const updated = await api.updateAnalysis(id, { is_pinned: pinned });
+    setAnalyses(prev => prev.map(a => a.id === id ? { ...a, ...updated } : a));
+  }, [api]);
 
   const deleteAnalysis = useCallback(async (id: string): Promise<void> => {
-    const res = await authFetch(`${API_BASE}/api/analyses/${id}`, {
-      method: 'DELETE',
-    });
-    if (!res.ok) {
-      const err = await res.json().catch(() => ({}));
-      throw new Error(err.detail || 'Failed to delete analysis');
-    }
+    await api.deleteAnalysis(id);
     setAnalyses(prev => prev.filter(a => a.id !== id));
     setTotal(prev => prev - 1);
-  }, [authFetch]);
+  }, [api]);
 
   return {
     analyses,
@@ -242,6 +562,8 @@ export function useAnalyses(authFetch: AuthFetch) {
     refetch: fetchAnalyses,
     saveAnalysis,
     getAnalysis,
+    fetchAllAnalyses,
+    pinAnalysis,
     deleteAnalysis,
   };
 }
@@ -250,71 +572,173 @@ export function useAnalyses(authFetch: AuthFetch) {
 // ALERTS HOOK
 // =============================================================================
 
-export function useAlerts(authFetch: AuthFetch) {
+const DEFAULT_ALERT_POLL_MS = 60000;
+
+export interface UseAlertsOptions {
+  /** Interval for polling while the event stream is not live (0 disables). */
+  pollIntervalMs?: number;
+  /** Subscribe to /api/alerts/stream for push delivery. */
+  realtime?: boolean;
+  /** Called once for each new alert, whether pushed or picked up by a refresh. */
+  onAlert?: (alert: Alert) => void;
+}
+
+export function useAlerts(api: ApiClient, workspaceId: string | null = null, options?: UseAlertsOptions) {
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('down');
+  const isActive = useActiveWorkspace(workspaceId);
+
+  const [loadedWorkspace, setLoadedWorkspace] = useState(workspaceId);
+  if (loadedWorkspace !== workspaceId) {
+    setLoadedWorkspace(workspaceId);
+    setAlerts([]);
+    setUnreadCount(0);
+    setLoading(true);
+  }
+
+  const pollIntervalMs = options?.pollIntervalMs ?? DEFAULT_ALERT_POLL_MS;
+  const realtime = options?.realtime ?? true;
 
-  const fetchAlerts = useCallback(async (options?: { unread_only?: boolean }) => {
+  // Latest callback without re-opening the stream when it changes
+  const onAlertRef = useRef(options?.onAlert);
+  useEffect(() => {
+    onAlertRef.current = options?.onAlert;
+  }, [options?.onAlert]);
+
+  const alertsRef = useRef<Alert[]>([]);
+  useEffect(() => {
+    alertsRef.current = alerts;
+  }, [alerts]);
+
+  // onAlert fires once per id, for alerts that arrive after the first load
+  // of the workspace (switching workspaces doesn't announce its backlog).
+  // Every loaded alert counts as announced, so updates to one don't re-fire.
+  const announcedRef = useRef(new Set<string>());
+  const loadedRef = useRef<{ workspaceId: string | null } | null>(null);
+  const announce = useCallback((alert: Alert) => {
+    if (announcedRef.current.has(alert.id)) return;
+    announcedRef.current.add(alert.id);
+    onAlertRef.current?.(alert);
+  }, []);
+
+  const loadAlerts = useCallback(async (
+    params: { unread_only?: boolean } | undefined,
+    silent: boolean
+  ) => {
     try {
-      setLoading(true);
-      const params = new URLSearchParams();
-      if (options?.unread_only) params.set('unread_only', 'true');
-      
-      const url = `${API_BASE}/api/alerts${params.toString() ? '?' + params : ''}`;
-      const res = await authFetch(url);
-      if (!res.ok) throw new Error('Failed to fetch alerts');
-      const data = await res.json();
-      setAlerts(data.alerts || []);
+      if (!silent) setLoading(true);
+      const data = await api.listAlerts(params);
+      if (!isActive(workspaceId)) return;
+      const next = data.alerts || [];
+      if (loadedRef.current?.workspaceId === workspaceId) {
+        const known = new Set(alertsRef.current.map(a => a.id));
+        next.filter(a => !known.has(a.id)).forEach(announce);
+      }
+      next.forEach(a => announcedRef.current.add(a.id));
+      loadedRef.current = { workspaceId };
+      alertsRef.current = next;
+      setAlerts(next);
       setUnreadCount(data.unread_count || 0);
       setError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      if (isActive(workspaceId)) setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
-      setLoading(false);
+      if (!silent && isActive(workspaceId)) setLoading(false);
     }
-  }, [authFetch]);
+  }, [api, workspaceId, isActive, announce]);
+
+  const fetchAlerts = useCallback(
+    (params?: { unread_only?: boolean }) => loadAlerts(params, false),
+    [loadAlerts]
+  );
 
   useEffect(() => {
     fetchAlerts();
   }, [fetchAlerts]);
 
-  const markAsRead = useCallback(async (id: string): Promise<void> => {
-    const res = await authFetch(`${API_BASE}/api/alerts/${id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ is_read: true }),
+  const mergeAlert = useCallback((incoming: Alert) => {
+    const current = alertsRef.current;
+    const existing = current.find(a => a.id === incoming.id);
+    const next = existing
+      ? current.map(a => a.id === incoming.id ? incoming : a)
+      : [incoming, ...current];
+    const unreadDelta = existing
+      ? (existing.is_read === incoming.is_read ? 0 : incoming.is_read ? -1 : 1)
+      : (incoming.is_read ? 0 : 1);
+
+    alertsRef.current = next;
+    setAlerts(next);
+    if (unreadDelta !== 0) setUnreadCount(c => Math.max(0, c + unreadDelta));
+  }, []);
+
+  // Push delivery. Each (re)connect does a silent refresh to pick up
+  // anything missed while the stream was down.
+  useEffect(() => {
+    if (!realtime) return;
+    return connectEventStream({
+      open: (lastEventId, signal) => api.openAlertStream(lastEventId, signal),
+      onStatus: (status) => {
+        setStreamStatus(status);
+        if (status === 'live') loadAlerts(undefined, true);
+      },
+      onMessage: (message) => {
+        if (message.event !== 'alert') return;
+        let alert: Alert;
+        try {
+          alert = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        const isNew = !alertsRef.current.some(a => a.id === alert.id);
+        mergeAlert(alert);
+        if (isNew) announce(alert);
+      },
     });
-    if (!res.ok) throw new Error('Failed to mark alert as read');
+  }, [api, realtime, loadAlerts, mergeAlert, announce]);
+
+  // Fallback polling while the stream is not live: poll while the tab is
+  // visible and refresh as soon as it becomes visible again.
+  useEffect(() => {
+    if (pollIntervalMs <= 0 || streamStatus === 'live') return;
+    const refresh = () => {
+      if (document.visibilityState === 'visible') loadAlerts(undefined, true);
+    };
+    const timer = setInterval(refresh, pollIntervalMs);
+    document.addEventListener('visibilitychange', refresh);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', refresh);
+    };
+  }, [loadAlerts, pollIntervalMs, streamStatus]);
+
+  const markAsRead = useCallback(async (id: string): Promise<void> => {
+    await api.updateAlert(id, { is_read: true });
     setAlerts(prev => prev.map(a => a.id === id ? { ...a, is_read: true } : a));
     setUnreadCount(prev => Math.max(0, prev - 1));
-  }, [authFetch]);
+  }, [api]);
 
   const markAllAsRead = useCallback(async (): Promise<void> => {
-    const res = await authFetch(`${API_BASE}/api/alerts/mark-all-read`, {
-      method: 'POST',
-    });
-    if (!res.ok) throw new Error('Failed to mark all alerts as read');
+    await api.markAllAlertsRead();
     setAlerts(prev => prev.map(a => ({ ...a, is_read: true })));
     setUnreadCount(0);
-  }, [authFetch]);
+  }, [api]);
 
   const deleteAlert = useCallback(async (id: string): Promise<void> => {
-    const res = await authFetch(`${API_BASE}/api/alerts/${id}`, {
-      method: 'DELETE',
-    });
-    if (!res.ok) throw new Error('Failed to delete alert');
+    await api.deleteAlert(id);
     const wasUnread = alerts.find(a => a.id === id)?.is_read === false;
     setAlerts(prev => prev.filter(a => a.id !== id));
     if (wasUnread) setUnreadCount(prev => Math.max(0, prev - 1));
-  }, [authFetch, alerts]);
+  }, [api, alerts]);
 
   return {
     alerts,
     unreadCount,
     loading,
     error,
+    live: streamStatus === 'live',
     refetch: fetchAlerts,
     markAsRead,
     markAllAsRead,
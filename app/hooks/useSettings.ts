@@ -0,0 +1,104 @@
+/**
+ * User Settings Hooks
+ * Place in: frontend/app/hooks/useSettings.ts
+ *
+ * Per-browser preferences persisted to localStorage. Changes propagate to
+ * every component (and every open tab) reading the same key.
+ */
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { Alert } from '../lib/api';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AutoSaveSettings {
+  enabled: boolean;
+  /** Keep only the newest N auto-saved runs per portfolio (null = no limit). */
+  keepLastPerPortfolio: number | null;
+  /** Delete auto-saved runs older than this many days (null = never). */
+  deleteAfterDays: number | null;
+}
+
+export const DEFAULT_AUTO_SAVE_SETTINGS: AutoSaveSettings = {
+  enabled: false,
+  keepLastPerPortfolio: 10,
+  deleteAfterDays: 30,
+};
+
+export interface NotificationSettings {
+  /** Show desktop notifications (also requires browser permission). */
+  enabled: boolean;
+  /** Alert types to notify on in addition to every critical alert. */
+  alertTypes: Alert['alert_type'][];
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  alertTypes: [],
+};
+
+// =============================================================================
+// LOCAL STORAGE STORE
+// =============================================================================
+
+const STORAGE_PREFIX = 'bavella:settings:';
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function readRaw(key: string): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_PREFIX + key);
+  } catch {
+    return null;
+  }
+}
+
+function writeRaw(key: string, value: string) {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, value);
+  } catch {
+    // Storage full or disabled (private mode) — keep the in-memory value only
+  }
+  listeners.forEach(l => l());
+}
+
+function useStoredSettings<T extends object>(key: string, defaults: T) {
+  const raw = useSyncExternalStore(subscribe, () => readRaw(key), () => null);
+
+  const settings = useMemo<T>(() => {
+    if (!raw) return defaults;
+    try {
+      return { ...defaults, ...JSON.parse(raw) };
+    } catch {
+      return defaults;
+    }
+  }, [raw, defaults]);
+
+  const update = useCallback((patch: Partial<T>) => {
+    writeRaw(key, JSON.stringify({ ...settings, ...patch }));
+  }, [key, settings]);
+
+  return [settings, update] as const;
+}
+
+// =============================================================================
+// SETTINGS HOOKS
+// =============================================================================
+
+export function useAutoSaveSettings() {
+  return useStoredSettings('auto-save', DEFAULT_AUTO_SAVE_SETTINGS);
+}
+
+export function useNotificationSettings() {
+  return useStoredSettings('notifications', DEFAULT_NOTIFICATION_SETTINGS);
+}
@@ -0,0 +1,146 @@
+/**
+ * Alert Rule Validation
+ * Place in: frontend/app/lib/alertRules.ts
+ *
+ * The rule editor works on string-valued drafts; validateAlertRule turns a
+ * draft into an AlertRuleCondition or reports what is wrong with it, so bad
+ * rules are caught before they reach the backend.
+ */
+
+import type { Alert, AlertRule, AlertRuleCondition } from './api';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AlertRuleType = AlertRuleCondition['type'];
+
+export interface AlertRuleDraft {
+  type: AlertRuleType;
+  threshold: string;
+  fromRegime: string;
+  toRegime: string;
+  severity: Alert['severity'];
+}
+
+export type AlertRuleErrors = Partial<Record<'threshold' | 'fromRegime' | 'toRegime' | 'rule', string>>;
+
+export type AlertRuleValidation =
+  | { ok: true; condition: AlertRuleCondition }
+  | { ok: false; errors: AlertRuleErrors };
+
+// =============================================================================
+// LABELS
+// =============================================================================
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, { label: string; unit: string; hint: string }> = {
+  zscore: { label: 'Z-score beyond', unit: 'σ', hint: 'Fires when |z| reaches the threshold (0–10)' },
+  drawdown: { label: 'Drawdown over', unit: '%', hint: 'Fires when drawdown from peak exceeds the threshold (0–100)' },
+  validity_score: { label: 'Validity score under', unit: 'pts', hint: 'Fires when the validity score drops below the threshold (0–100)' },
+  regime_transition: { label: 'Regime transition', unit: '', hint: 'Fires when the regime changes from one state to another' },
+};
+
+export const EMPTY_RULE_DRAFT: AlertRuleDraft = {
+  type: 'zscore',
+  threshold: '2.5',
+  fromRegime: '',
+  toRegime: '',
+  severity: 'warning',
+};
+
+export function describeAlertRule(condition: AlertRuleCondition): string {
+  switch (condition.type) {
+    case 'zscore':
+      return `|z| ≥ ${condition.threshold}`;
+    case 'drawdown':
+      return `Drawdown > ${condition.threshold_pct}%`;
+    case 'validity_score':
+      return `Validity score < ${condition.threshold}`;
+    case 'regime_transition':
+      return `Regime ${formatRegime(condition.from_regime)} → ${formatRegime(condition.to_regime)}`;
+  }
+}
+
+export function formatRegime(regime: string): string {
+  return regime.replace(/_/g, ' ');
+}
+
+/** Regimes are stored the way /analyze reports them, in snake_case. */
+export function normalizeRegime(value: string): string {
+  return value.trim().replace(/\s+/g, '_');
+}
+
+export function draftFromRule(rule: AlertRule): AlertRuleDraft {
+  const { condition } = rule;
+  return {
+    ...EMPTY_RULE_DRAFT,
+    type: condition.type,
+    severity: rule.severity,
+    threshold:
+      condition.type === 'drawdown' ? String(condition.threshold_pct)
+      : condition.type === 'regime_transition' ? ''
+      : String(condition.threshold),
+    fromRegime: condition.type === 'regime_transition' ? condition.from_regime : '',
+    toRegime: condition.type === 'regime_transition' ? condition.to_regime : '',
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const THRESHOLD_RANGES: Record<Exclude<AlertRuleType, 'regime_transition'>, [number, number]> = {
+  zscore: [0, 10],
+  drawdown: [0, 100],
+  validity_score: [0, 100],
+};
+
+function parseThreshold(type: keyof typeof THRESHOLD_RANGES, raw: string): number | string {
+  const trimmed = raw.trim().replace(/^[±+]/, '').replace(/%$/, '');
+  if (trimmed === '') return 'Enter a threshold';
+  const value = Number(trimmed);
+  if (!Number.isFinite(value)) return 'Threshold must be a number';
+  const [min, max] = THRESHOLD_RANGES[type];
+  if (value <= min || value > max) return `Threshold must be above ${min} and at most ${max}`;
+  return value;
+}
+
+function sameCondition(a: AlertRuleCondition, b: AlertRuleCondition): boolean {
+  return describeAlertRule(a) === describeAlertRule(b);
+}
+
+/**
+ * Validates a draft. Pass the portfolio's other rules to reject duplicates
+ * (exclude the rule being edited).
+ */
+export function validateAlertRule(draft: AlertRuleDraft, otherRules: AlertRule[] = []): AlertRuleValidation {
+  const errors: AlertRuleErrors = {};
+  let condition: AlertRuleCondition | null = null;
+
+  if (draft.type === 'regime_transition') {
+    const from = normalizeRegime(draft.fromRegime);
+    const to = normalizeRegime(draft.toRegime);
+    if (!from) errors.fromRegime = 'Enter the starting regime';
+    if (!to) errors.toRegime = 'Enter the target regime';
+    if (from && to && from.toLowerCase() === to.toLowerCase()) errors.toRegime = 'Target regime must differ from the starting regime';
+    if (!errors.fromRegime && !errors.toRegime) {
+      condition = { type: 'regime_transition', from_regime: from, to_regime: to };
+    }
+  } else {
+    const threshold = parseThreshold(draft.type, draft.threshold);
+    if (typeof threshold === 'string') {
+      errors.threshold = threshold;
+    } else if (draft.type === 'drawdown') {
+      condition = { type: 'drawdown', threshold_pct: threshold };
+    } else {
+      condition = { type: draft.type, threshold };
+    }
+  }
+
+  if (condition && otherRules.some(r => sameCondition(r.condition, condition))) {
+    errors.rule = 'An identical rule already exists for this portfolio';
+  }
+
+  if (!condition || Object.keys(errors).length > 0) return { ok: false, errors };
+  return { ok: true, condition };
+}
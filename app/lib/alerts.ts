@@ -0,0 +1,97 @@
+/**
+ * Alert Presentation & Desktop Notifications
+ * Place in: frontend/app/lib/alerts.ts
+ *
+ * Labels and colors shared by the Alerts tab, Settings and the rule
+ * editor, plus the Web Notifications plumbing. Every open tab receives the
+ * same alerts, so a tab must claim an alert id before notifying; claims are
+ * recorded in localStorage under a Web Lock so only one tab wins.
+ */
+
+import type { Alert } from './api';
+import type { NotificationSettings } from '../hooks/useSettings';
+
+// =============================================================================
+// LABELS
+// =============================================================================
+
+export const ALERT_TYPE_LABELS: Record<Alert['alert_type'], string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  regime_change: 'Regime change',
+  drawdown: 'Drawdown',
+  zscore_extreme: 'Z-score extreme',
+};
+
+export const SEVERITY_COLORS: Record<Alert['severity'], string> = {
+  info: '#4fc3f7',
+  warning: '#f39c12',
+  critical: '#e74c3c',
+};
+
+// =============================================================================
+// PERMISSION
+// =============================================================================
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export function getNotificationPermission(): NotificationPermissionState {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+}
+
+// =============================================================================
+// NOTIFYING
+// =============================================================================
+
+const CLAIMED_KEY = 'bavella:notified-alerts';
+const CLAIM_LOCK = 'bavella:notify-alert';
+const MAX_REMEMBERED = 200;
+
+export function shouldNotify(alert: Alert, settings: NotificationSettings): boolean {
+  if (!settings.enabled || alert.is_read) return false;
+  return alert.severity === 'critical' || settings.alertTypes.includes(alert.alert_type);
+}
+
+function claimInStorage(id: string): boolean {
+  try {
+    const claimed: string[] = JSON.parse(window.localStorage.getItem(CLAIMED_KEY) || '[]');
+    if (claimed.includes(id)) return false;
+    window.localStorage.setItem(CLAIMED_KEY, JSON.stringify([id, ...claimed].slice(0, MAX_REMEMBERED)));
+    return true;
+  } catch {
+    return true;
+  }
+}
+
+/** Resolves true in exactly one tab per alert id. */
+export async function claimAlertNotification(id: string): Promise<boolean> {
+  if ('locks' in navigator) {
+    return navigator.locks.request(CLAIM_LOCK, () => claimInStorage(id));
+  }
+  return claimInStorage(id);
+}
+
+/**
+ * Shows a desktop notification for the alert. Clicking it focuses this tab
+ * and calls onClick. The alert id doubles as the notification tag, so the
+ * OS collapses any duplicate that slips past the claim.
+ */
+export function showAlertNotification(alert: Alert, onClick: () => void) {
+  if (getNotificationPermission() !== 'granted') return;
+  const severity = alert.severity.charAt(0).toUpperCase() + alert.severity.slice(1);
+  const notification = new Notification(`${severity}: ${ALERT_TYPE_LABELS[alert.alert_type]}`, {
+    body: alert.portfolio_name ? `${alert.portfolio_name}: ${alert.message}` : alert.message,
+    tag: alert.id,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    onClick();
+  };
+}
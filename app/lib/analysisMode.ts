@@ -0,0 +1,41 @@
+/**
+ * Analysis Modes
+ * Place in: frontend/app/lib/analysisMode.ts
+ *
+ * What kind of portfolio is being analyzed: a long/short book, a long-only
+ * basket, or a single instrument. The mode decides which exposure figures
+ * and diagnostics make sense, and is sent to /analyze.
+ */
+
+import type { Position } from './api';
+
+export type AnalysisMode = 'long_short' | 'long_only' | 'single';
+
+export const ANALYSIS_MODES: AnalysisMode[] = ['long_short', 'long_only', 'single'];
+
+export const ANALYSIS_MODE_LABELS: Record<AnalysisMode, string> = {
+  long_short: 'Long/Short',
+  long_only: 'Long-only basket',
+  single: 'Single instrument',
+};
+
+/** Report sections that assume two legs, listed for modes that don't have them. */
+export const INAPPLICABLE_DIAGNOSTICS: Record<AnalysisMode, string[]> = {
+  long_short: [],
+  long_only: ['short leg and hedge ratio', 'dollar and beta neutrality', 'long/short spread'],
+  single: [
+    'short leg and hedge ratio',
+    'dollar and beta neutrality',
+    'long/short spread',
+    'diversification and concentration',
+    'correlation between positions',
+  ],
+};
+
+/** Best guess for positions saved or shared without a mode. */
+export function inferAnalysisMode(positions: Position[]): AnalysisMode {
+  const held = positions.filter(p => p.amount !== 0);
+  if (held.length === 1) return 'single';
+  if (held.length > 0 && held.every(p => p.amount > 0)) return 'long_only';
+  return 'long_short';
+}
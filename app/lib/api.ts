@@ -0,0 +1,594 @@
+/**
+ * Typed API Client
+ * Place in: frontend/app/lib/api.ts
+ *
+ * One method per backend endpoint. Hooks and components go through this
+ * client instead of building URLs against API_BASE themselves, so a change
+ * in the backend contract shows up here as a type error.
+ */
+
+import type { ValiditySummary, ValidityFull } from '../components/ValidityDashboard';
+import type { Quote, SizingMode } from './sizing';
+import type { AnalysisMode } from './analysisMode';
+
+// =============================================================================
+// TYPES — DATABASE RESOURCES
+// =============================================================================
+
+export interface Position {
+  ticker: string;
+  amount: number;
+  /** ISO 4217 code the amount is in; the portfolio's base currency when omitted. */
+  currency?: string;
+  /**
+   * Size as entered in the portfolio's sizing mode (shares or weight %);
+   * `amount` is its notional when the portfolio was saved.
+   */
+  size?: number;
+}
+
+export interface Portfolio {
+  id: string;
+  /** Creator; in a team workspace other members can see and edit it too. */
+  user_id: string;
+  /** Clerk organization the portfolio is shared with; null when personal. */
+  workspace_id?: string | null;
+  name: string;
+  description: string | null;
+  positions: Position[];
+  /** Currency exposure totals are reported in; USD when omitted. */
+  base_currency?: string;
+  /** How position sizes are entered; notional when omitted. */
+  sizing_mode?: SizingMode;
+  /** Net asset value in base currency, for weight sizing. */
+  nav?: number | null;
+  /** Long/short book, long-only basket or single instrument; inferred when omitted. */
+  analysis_mode?: AnalysisMode;
+  is_default: boolean;
+  is_tracked: boolean;
+  /** Free-form labels, lowercase (e.g. "energy", "pairs"). */
+  tags?: string[];
+  /** Folder name in the portfolio picker; null when unfiled. */
+  folder?: string | null;
+  /** Current version number; bumped by the backend whenever positions change. */
+  version?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Snapshot of a portfolio's positions, recorded on every change. */
+export interface PortfolioVersion {
+  id: string;
+  portfolio_id: string;
+  version: number;
+  name: string;
+  positions: Position[];
+  /** Settings the positions were saved with; absent on older versions. */
+  base_currency?: string;
+  sizing_mode?: SizingMode;
+  nav?: number | null;
+  changed_by: string;
+  changed_by_name: string | null;
+  created_at: string;
+}
+
+/** Headline signal fields returned by /analyze. */
+export interface AnalysisSignalFields {
+  regime?: string;
+  signal?: string;
+  trend_score?: number;
+  z_score?: number;
+  rsi?: number;
+  cumulative_return?: number;
+}
+
+export type AnalysisValidity = ValiditySummary & { full: ValidityFull | null };
+
+export interface AnalysisResultSummary extends AnalysisSignalFields {
+  as_of_date?: string | null;
+  validity?: AnalysisValidity | null;
+}
+
+/** Where an analysis came from: the Markets tab or an uploaded dataset. */
+export type AnalysisSource = 'market' | 'custom_upload';
+
+export interface AnalysisSummary {
+  id: string;
+  user_id: string;
+  workspace_id?: string | null;
+  portfolio_id: string | null;
+  /** Portfolio version the run used; null if the rows had unsaved edits. */
+  portfolio_version?: number | null;
+  portfolio_name: string;
+  positions: Position[];
+  analysis_period_days: number;
+  result_summary: AnalysisResultSummary;
+  duration_ms: number | null;
+  created_at: string;
+  has_html_report: boolean;
+  has_ai_memo: boolean;
+  source?: AnalysisSource;
+  /** Saved automatically after a run rather than by "Save to History". */
+  auto_saved?: boolean;
+  /** Pinned analyses are exempt from retention cleanup. */
+  is_pinned?: boolean;
+}
+
+export interface AnalysisFull extends AnalysisSummary {
+  html_report: string | null;
+  ai_memo: string | null;
+}
+
+export interface Alert {
+  id: string;
+  user_id: string;
+  workspace_id?: string | null;
+  portfolio_id: string;
+  portfolio_name: string | null;
+  alert_type: 'buy' | 'sell' | 'regime_change' | 'drawdown' | 'zscore_extreme';
+  severity: 'info' | 'warning' | 'critical';
+  signal_date: string;
+  message: string;
+  is_read: boolean;
+  created_at: string;
+}
+
+/** What makes an alert rule fire. Thresholds are absolute values. */
+export type AlertRuleCondition =
+  | { type: 'zscore'; threshold: number }
+  | { type: 'drawdown'; threshold_pct: number }
+  | { type: 'validity_score'; threshold: number }
+  | { type: 'regime_transition'; from_regime: string; to_regime: string };
+
+export interface AlertRule {
+  id: string;
+  portfolio_id: string;
+  condition: AlertRuleCondition;
+  severity: Alert['severity'];
+  is_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PortfolioListResponse {
+  portfolios: Portfolio[];
+}
+
+export interface PortfolioVersionListResponse {
+  versions: PortfolioVersion[];
+}
+
+export interface CreatePortfolioRequest {
+  name: string;
+  positions: Position[];
+  base_currency?: string;
+  sizing_mode?: SizingMode;
+  nav?: number | null;
+  analysis_mode?: AnalysisMode;
+  description: string | null;
+  is_default: boolean;
+  is_tracked: boolean;
+  tags?: string[];
+  folder?: string | null;
+}
+
+export type UpdatePortfolioRequest = Partial<CreatePortfolioRequest>;
+
+export interface AnalysisListParams {
+  portfolio_id?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AnalysisListResponse {
+  analyses: AnalysisSummary[];
+  total: number;
+}
+
+export interface CreateAnalysisRequest {
+  portfolio_name: string;
+  positions: Position[];
+  analysis_period_days: number;
+  result_summary: AnalysisResultSummary | Record<string, unknown>;
+  html_report: string;
+  ai_memo: string | null;
+  duration_ms: number | null;
+  portfolio_id: string | null;
+  portfolio_version: number | null;
+  source: AnalysisSource;
+  auto_saved: boolean;
+  is_pinned: boolean;
+}
+
+export interface UpdateAnalysisRequest {
+  is_pinned?: boolean;
+}
+
+export interface AlertRuleListResponse {
+  rules: AlertRule[];
+}
+
+export interface CreateAlertRuleRequest {
+  condition: AlertRuleCondition;
+  severity: Alert['severity'];
+  is_enabled: boolean;
+}
+
+export type UpdateAlertRuleRequest = Partial<CreateAlertRuleRequest>;
+
+export interface AlertListParams {
+  unread_only?: boolean;
+}
+
+export interface AlertListResponse {
+  alerts: Alert[];
+  unread_count: number;
+}
+
+export interface UpdateAlertRequest {
+  is_read: boolean;
+}
+
+// =============================================================================
+// TYPES — ANALYSIS ENGINE
+// =============================================================================
+
+export interface Candidate {
+  name: string;
+  provider: string;
+  provider_symbol: string;
+  type: string;
+  exchange?: string;
+  currency?: string;
+  confidence?: number;
+}
+
+export interface ResolveResponse {
+  candidates: Candidate[];
+  auto_selected: boolean;
+}
+
+export interface AnalyzeRequest {
+  portfolio_name: string;
+  analysis_period_days: number;
+  include_ai_memo: boolean;
+  positions: Position[];
+  /** Currency the report's exposures are stated in. */
+  base_currency?: string;
+  /** Which diagnostics apply; long_short when omitted. */
+  analysis_mode?: AnalysisMode;
+  analysis_end_date?: string;
+}
+
+export interface AnalyzeResponse extends AnalysisSignalFields {
+  html_report: string;
+  ai_memo?: string | null;
+  validity?: ValiditySummary | null;
+  validity_full?: ValidityFull | null;
+}
+
+export interface UploadValidationData {
+  series: string[];
+  row_count: number;
+  date_status: 'detected' | 'sequential' | null;
+  date_range: [string, string] | null;
+  frequency: string | null;
+}
+
+export interface UploadValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  data: UploadValidationData | null;
+}
+
+export interface BetaResponse {
+  /** Index the betas were estimated against (e.g. "SPY"). */
+  benchmark: string;
+  /** Ticker → beta; tickers without enough history are omitted. */
+  betas: Record<string, number>;
+}
+
+export interface FxRatesResponse {
+  base: string;
+  /** Currency → units of `base` per one unit of it; unknown currencies are omitted. */
+  rates: Record<string, number>;
+  as_of: string | null;
+}
+
+export interface PriceResponse {
+  /** Ticker → latest price; tickers without a price are omitted. */
+  prices: Record<string, Quote>;
+  as_of: string | null;
+}
+
+export interface CustomAnalyzeRequest {
+  file: File;
+  weights: Record<string, number>;
+  context: string;
+  include_ai_memo: boolean;
+  analysis_name: string;
+}
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/** One entry of a FastAPI/pydantic 422 `detail` array. */
+export interface ValidationIssue {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly detail: string | null;
+  readonly validationErrors: ValidationIssue[];
+  readonly requestId: string | null;
+  /** Seconds the server asked us to wait (Retry-After), if any. */
+  readonly retryAfter: number | null;
+  /** Epoch ms at which a retry is allowed, derived from retryAfter. */
+  readonly retryAt: number | null;
+
+  constructor(
+    message: string,
+    status: number,
+    init: {
+      detail?: string | null;
+      validationErrors?: ValidationIssue[];
+      requestId?: string | null;
+      retryAfter?: number | null;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = init.detail ?? null;
+    this.validationErrors = init.validationErrors ?? [];
+    this.requestId = init.requestId ?? null;
+    this.retryAfter = init.retryAfter ?? null;
+    this.retryAt = this.retryAfter !== null ? Date.now() + this.retryAfter * 1000 : null;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+
+  get isRateLimited() {
+    return this.status === 429;
+  }
+
+  /** Whether repeating the same request can reasonably succeed. */
+  get isRetryable() {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+
+  /** Whole seconds left before a retry is allowed (0 when it already is). */
+  retryRemaining(now: number = Date.now()) {
+    if (this.retryAt === null) return 0;
+    return Math.max(0, Math.ceil((this.retryAt - now) / 1000));
+  }
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export function formatValidationIssue(issue: ValidationIssue) {
+  // Drop the request-part prefix FastAPI puts first ("body", "query", ...)
+  const loc = issue.loc.filter((part, i) => !(i === 0 && typeof part === 'string' && ['body', 'query', 'path', 'header'].includes(part)));
+  return loc.length > 0 ? `${loc.join('.')}: ${issue.msg}` : issue.msg;
+}
+
+async function toApiError(res: Response, fallback: string): Promise<ApiError> {
+  const body = await res.json().catch(() => ({}));
+  const rawDetail = body?.detail;
+  const validationErrors: ValidationIssue[] = Array.isArray(rawDetail)
+    ? rawDetail.filter((d): d is ValidationIssue => typeof d?.msg === 'string' && Array.isArray(d?.loc))
+    : [];
+  const detail = typeof rawDetail === 'string'
+    ? rawDetail
+    : validationErrors.length > 0
+      ? validationErrors.map(formatValidationIssue).join('; ')
+      : null;
+
+  return new ApiError(detail || fallback, res.status, {
+    detail,
+    validationErrors,
+    requestId: res.headers.get('X-Request-ID') || (typeof body?.request_id === 'string' ? body.request_id : null),
+    retryAfter: parseRetryAfter(res.headers.get('Retry-After')),
+  });
+}
+
+/**
+ * Human-readable one-liner for any error thrown by the client.
+ * Panels and toasts should go through this so a 429 always reads the same.
+ */
+export function describeApiError(error: unknown, fallback: string, now: number = Date.now()): string {
+  if (error instanceof ApiError) {
+    if (error.isNetworkError) return 'Could not reach the server. Check your connection.';
+    if (error.status === 401) return 'Session expired. Please refresh.';
+    if (error.isRateLimited) {
+      const remaining = error.retryRemaining(now);
+      if (error.retryAt === null) return 'Rate limited. Please wait before retrying.';
+      return remaining > 0 ? `Rate limited, retry in ${remaining}s` : 'Rate limited, you can retry now';
+    }
+    if (error.validationErrors.length > 1) {
+      return `${fallback}: ${error.validationErrors.length} invalid fields`;
+    }
+    return error.message;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  if (typeof error === 'string' && error) return error;
+  return fallback;
+}
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+
+export type AuthFetch = (url: string, options?: RequestInit) => Promise<Response>;
+
+export const API_BASE = process.env.NEXT_PUBLIC_API_BASE?.trim() || 'http://localhost:8000';
+
+/** Scopes portfolios, analyses and alerts to a team workspace (Clerk org id). */
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+function jsonBody(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+function withQuery(path: string, params: Record<string, string | number | boolean | undefined>) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '' && value !== false && value !== 0) {
+      search.set(key, String(value));
+    }
+  }
+  const qs = search.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+/**
+ * workspaceId scopes every request to a team workspace; null means the
+ * user's personal workspace.
+ */
+export function createApiClient(
+  fetcher: AuthFetch,
+  baseUrl: string = API_BASE,
+  workspaceId: string | null = null
+) {
+  async function send(path: string, fallback: string, init?: RequestInit): Promise<Response> {
+    let res: Response;
+    try {
+      const headers = new Headers(init?.headers);
+      if (workspaceId) headers.set(WORKSPACE_HEADER, workspaceId);
+      res = await fetcher(`${baseUrl}${path}`, { ...init, headers });
+    } catch (e) {
+      if (e instanceof Error && e.name === 'AbortError') throw e;
+      throw new ApiError(fallback, 0);
+    }
+    if (!res.ok) throw await toApiError(res, fallback);
+    return res;
+  }
+
+  async function json<T>(path: string, fallback: string, init?: RequestInit): Promise<T> {
+    const res = await send(path, fallback, init);
+    return res.json() as Promise<T>;
+  }
+
+  return {
+    baseUrl,
+    workspaceId,
+
+    // Portfolios
+    listPortfolios: () =>
+      json<PortfolioListResponse>('/api/portfolios', 'Failed to fetch portfolios'),
+    createPortfolio: (body: CreatePortfolioRequest) =>
+      json<Portfolio>('/api/portfolios', 'Failed to save portfolio', jsonBody('POST', body)),
+    updatePortfolio: (id: string, body: UpdatePortfolioRequest) =>
+      json<Portfolio>(`/api/portfolios/${id}`, 'Failed to update portfolio', jsonBody('PATCH', body)),
+    deletePortfolio: async (id: string): Promise<void> => {
+      await send(`/api/portfolios/${id}`, 'Failed to delete portfolio', { method: 'DELETE' });
+    },
+    listPortfolioVersions: (id: string) =>
+      json<PortfolioVersionListResponse>(`/api/portfolios/${id}/versions`, 'Failed to fetch portfolio history'),
+
+    // Alert rules
+    listAlertRules: (portfolioId: string) =>
+      json<AlertRuleListResponse>(`/api/portfolios/${portfolioId}/alert-rules`, 'Failed to fetch alert rules'),
+    createAlertRule: (portfolioId: string, body: CreateAlertRuleRequest) =>
+      json<AlertRule>(`/api/portfolios/${portfolioId}/alert-rules`, 'Failed to save alert rule', jsonBody('POST', body)),
+    updateAlertRule: (portfolioId: string, ruleId: string, body: UpdateAlertRuleRequest) =>
+      json<AlertRule>(
+        `/api/portfolios/${portfolioId}/alert-rules/${ruleId}`,
+        'Failed to update alert rule',
+        jsonBody('PATCH', body)
+      ),
+    deleteAlertRule: async (portfolioId: string, ruleId: string): Promise<void> => {
+      await send(`/api/portfolios/${portfolioId}/alert-rules/${ruleId}`, 'Failed to delete alert rule', {
+        method: 'DELETE',
+      });
+    },
+
+    // Analyses
+    listAnalyses: (params: AnalysisListParams = {}) =>
+      json<AnalysisListResponse>(withQuery('/api/analyses', { ...params }), 'Failed to fetch analyses'),
+    createAnalysis: (body: CreateAnalysisRequest) =>
+      json<AnalysisSummary>('/api/analyses', 'Failed to save analysis', jsonBody('POST', body)),
+    getAnalysis: (id: string) =>
+      json<AnalysisFull>(`/api/analyses/${id}`, 'Failed to fetch analysis'),
+    updateAnalysis: (id: string, body: UpdateAnalysisRequest) =>
+      json<AnalysisSummary>(`/api/analyses/${id}`, 'Failed to update analysis', jsonBody('PATCH', body)),
+    deleteAnalysis: async (id: string): Promise<void> => {
+      await send(`/api/analyses/${id}`, 'Failed to delete analysis', { method: 'DELETE' });
+    },
+
+    // Alerts
+    listAlerts: (params: AlertListParams = {}) =>
+      json<AlertListResponse>(withQuery('/api/alerts', { ...params }), 'Failed to fetch alerts'),
+    updateAlert: async (id: string, body: UpdateAlertRequest): Promise<void> => {
+      await send(`/api/alerts/${id}`, 'Failed to update alert', jsonBody('PATCH', body));
+    },
+    markAllAlertsRead: async (): Promise<void> => {
+      await send('/api/alerts/mark-all-read', 'Failed to mark all alerts as read', { method: 'POST' });
+    },
+    deleteAlert: async (id: string): Promise<void> => {
+      await send(`/api/alerts/${id}`, 'Failed to delete alert', { method: 'DELETE' });
+    },
+    /** Opens the server-sent event stream of new alerts (see lib/sse.ts). */
+    openAlertStream: (lastEventId: string | null, signal: AbortSignal) => {
+      const headers: Record<string, string> = { Accept: 'text/event-stream' };
+      if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+      return send('/api/alerts/stream', 'Failed to open alert stream', { headers, signal });
+    },
+
+    // Analysis engine
+    resolve: (query: string, options?: { signal?: AbortSignal }) =>
+      json<ResolveResponse>(withQuery('/resolve', { q: query }), 'Search failed', {
+        signal: options?.signal,
+      }),
+    analyze: (body: AnalyzeRequest) =>
+      json<AnalyzeResponse>('/analyze', 'Analysis failed', jsonBody('POST', body)),
+    betas: (tickers: string[], days: number) =>
+      json<BetaResponse>(withQuery('/betas', { tickers: tickers.join(','), days }), 'Failed to fetch betas'),
+    prices: (tickers: string[]) =>
+      json<PriceResponse>(withQuery('/prices', { tickers: tickers.join(',') }), 'Failed to fetch prices'),
+    fxRates: (base: string, currencies: string[]) =>
+      json<FxRatesResponse>(withQuery('/fx/rates', { base, symbols: currencies.join(',') }), 'Failed to fetch FX rates'),
+    validateUpload: (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return json<UploadValidationResult>('/validate/upload', 'Validation failed', {
+        method: 'POST',
+        body: formData,
+      });
+    },
+    analyzeCustom: async (body: CustomAnalyzeRequest): Promise<string> => {
+      const formData = new FormData();
+      formData.append('file', body.file);
+      formData.append('weights', JSON.stringify(body.weights));
+      formData.append('context', body.context);
+      formData.append('include_ai_memo', String(body.include_ai_memo));
+      formData.append('analysis_name', body.analysis_name);
+      const res = await send('/analyze/custom', 'Analysis failed', {
+        method: 'POST',
+        body: formData,
+      });
+      return res.text();
+    },
+    templateCsvUrl: `${baseUrl}/template/csv`,
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,77 @@
+/**
+ * Currencies
+ * Place in: frontend/app/lib/currency.ts
+ *
+ * Position amounts are notionals in the position's own currency. Exposure
+ * totals are converted to the portfolio's base currency with rates from
+ * the backend's /fx/rates endpoint.
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/** Offered in the base and position currency pickers. */
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD', 'HKD', 'SGD', 'SEK', 'NOK', 'DKK'];
+
+/** Currency code → units of the base currency per one unit of it. */
+export type FxRates = Record<string, number>;
+
+/**
+ * Upper-cases an ISO 4217 code; null if it isn't one. Pence quotes
+ * ("GBp", "GBX") map to GBP, since amounts are notionals rather than prices.
+ */
+export function normalizeCurrency(code: string | null | undefined): string | null {
+  const text = code?.trim() ?? '';
+  if (text === 'GBp' || text.toUpperCase() === 'GBX') return 'GBP';
+  return /^[a-z]{3}$/i.test(text) ? text.toUpperCase() : null;
+}
+
+/** Common currencies first, then any others in use (sorted). */
+export function currencyOptions(inUse: string[]): string[] {
+  const extra = inUse.filter(c => !COMMON_CURRENCIES.includes(c));
+  return [...COMMON_CURRENCIES, ...[...new Set(extra)].sort()];
+}
+
+/** The one currency all positions are in, or null when they are mixed. */
+export function sharedCurrency(positions: { currency?: string }[], base: string): string | null {
+  const found = new Set(positions.map(p => p.currency ?? base));
+  if (found.size > 1) return null;
+  return found.values().next().value ?? base;
+}
+
+/** Rate to convert `currency` into `base`; undefined while it is unknown. */
+export function rateToBase(currency: string, base: string, rates: FxRates): number | undefined {
+  if (currency === base) return 1;
+  const rate = rates[currency];
+  return Number.isFinite(rate) && rate > 0 ? rate : undefined;
+}
+
+export interface BaseExposures {
+  long: number;
+  short: number;
+  gross: number;
+  net: number;
+  /** Currencies without a rate; their positions are left out of the totals. */
+  missing: string[];
+}
+
+export function exposuresInBase(
+  positions: { amount: number; currency: string }[],
+  base: string,
+  rates: FxRates
+): BaseExposures {
+  let long = 0;
+  let short = 0;
+  const missing = new Set<string>();
+  for (const p of positions) {
+    const amount = Number(p.amount || 0);
+    if (amount === 0) continue;
+    const rate = rateToBase(p.currency, base, rates);
+    if (rate === undefined) {
+      missing.add(p.currency);
+      continue;
+    }
+    if (amount > 0) long += amount * rate;
+    else short -= amount * rate;
+  }
+  return { long, short, gross: long + short, net: long - short, missing: [...missing].sort() };
+}
@@ -0,0 +1,64 @@
+/**
+ * Instrument Metadata
+ * Place in: frontend/app/lib/instruments.ts
+ *
+ * Asset classes and confidence levels for /resolve candidates, used by the
+ * instrument search filters and badges.
+ */
+
+import type { Candidate } from './api';
+
+export type AssetClass = 'equity' | 'etf' | 'fx' | 'crypto' | 'index' | 'other';
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  equity: 'Equity',
+  etf: 'ETF',
+  fx: 'FX',
+  crypto: 'Crypto',
+  index: 'Index',
+  other: 'Other',
+};
+
+const ASSET_CLASS_ORDER: AssetClass[] = ['equity', 'etf', 'fx', 'crypto', 'index', 'other'];
+
+/** Providers spell types differently ("Common Stock", "EQUITY", "cryptocurrency"...). */
+export function assetClassOf(candidate: Pick<Candidate, 'type'>): AssetClass {
+  const type = candidate.type.toLowerCase();
+  if (/etf|fund|etp/.test(type)) return 'etf';
+  if (/crypto/.test(type)) return 'crypto';
+  if (/fx|forex|currency/.test(type)) return 'fx';
+  if (/index/.test(type)) return 'index';
+  if (/equity|stock|share|adr/.test(type)) return 'equity';
+  return 'other';
+}
+
+/** Asset classes present in the candidates, in display order. */
+export function assetClassesIn(candidates: Candidate[]): AssetClass[] {
+  const present = new Set(candidates.map(assetClassOf));
+  return ASSET_CLASS_ORDER.filter(c => present.has(c));
+}
+
+export function exchangesIn(candidates: Candidate[]): string[] {
+  return [...new Set(candidates.map(c => c.exchange).filter((e): e is string => !!e))].sort();
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export const CONFIDENCE_COLORS: Record<ConfidenceLevel, string> = {
+  high: '#00b894',
+  medium: '#f39c12',
+  low: '#e74c3c',
+};
+
+/** Confidence as a 0–1 fraction; providers send either 0–1 or 0–100. */
+export function confidenceFraction(confidence: number | undefined): number | null {
+  if (confidence === undefined || !Number.isFinite(confidence)) return null;
+  const fraction = confidence > 1 ? confidence / 100 : confidence;
+  return Math.max(0, Math.min(1, fraction));
+}
+
+export function confidenceLevel(fraction: number): ConfidenceLevel {
+  if (fraction >= 0.8) return 'high';
+  if (fraction >= 0.5) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,98 @@
+/**
+ * Portfolio Diffs
+ * Place in: frontend/app/lib/portfolioDiff.ts
+ *
+ * Compares two sets of positions by ticker. Used by the version history
+ * view and to decide whether a run matches a saved portfolio version.
+ */
+
+import type { Position } from './api';
+import { DEFAULT_CURRENCY } from './currency';
+import type { SizingMode } from './sizing';
+
+export interface PositionChange {
+  ticker: string;
+  from: number;
+  to: number;
+}
+
+export interface PositionsDiff {
+  added: Position[];
+  removed: Position[];
+  changed: PositionChange[];
+  netDelta: number;
+  grossDelta: number;
+}
+
+/** Sums amounts per ticker so duplicate legs compare as one. */
+function byTicker(positions: Position[]): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const p of positions) map.set(p.ticker, (map.get(p.ticker) ?? 0) + p.amount);
+  return map;
+}
+
+export function netOf(positions: Position[]): number {
+  return positions.reduce((s, p) => s + p.amount, 0);
+}
+
+export function grossOf(positions: Position[]): number {
+  return positions.reduce((s, p) => s + Math.abs(p.amount), 0);
+}
+
+export function diffPositions(before: Position[], after: Position[]): PositionsDiff {
+  const prev = byTicker(before);
+  const next = byTicker(after);
+  const added: Position[] = [];
+  const removed: Position[] = [];
+  const changed: PositionChange[] = [];
+
+  for (const [ticker, amount] of next) {
+    const old = prev.get(ticker);
+    if (old === undefined) added.push({ ticker, amount });
+    else if (old !== amount) changed.push({ ticker, from: old, to: amount });
+  }
+  for (const [ticker, amount] of prev) {
+    if (!next.has(ticker)) removed.push({ ticker, amount });
+  }
+
+  return {
+    added,
+    removed,
+    changed,
+    netDelta: netOf(after) - netOf(before),
+    grossDelta: grossOf(after) - grossOf(before),
+  };
+}
+
+/** Currency per ticker; positions without one are in `base`. */
+function currencies(positions: Position[], base: string): Map<string, string> {
+  return new Map(positions.map(p => [p.ticker, p.currency ?? base]));
+}
+
+/** Same amounts in the same currencies; `baseCurrency` fills in positions saved without one. */
+export function samePositions(a: Position[], b: Position[], baseCurrency = DEFAULT_CURRENCY): boolean {
+  const diff = diffPositions(a, b);
+  if (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0) return false;
+  const other = currencies(b, baseCurrency);
+  return [...currencies(a, baseCurrency)].every(([ticker, currency]) => other.get(ticker) === currency);
+}
+
+/** Positions with the sizing they were entered in. */
+export interface SizedHoldings {
+  positions: Position[];
+  sizingMode: SizingMode;
+  nav?: number | null;
+}
+
+/**
+ * Same holdings as entered. Outside notional sizing the entered sizes are
+ * compared, since the notionals converted from them move with prices.
+ */
+export function sameHoldings(a: SizedHoldings, b: SizedHoldings, baseCurrency = DEFAULT_CURRENCY): boolean {
+  if (a.sizingMode !== b.sizingMode) return false;
+  if (a.sizingMode === 'notional') return samePositions(a.positions, b.positions, baseCurrency);
+  if (a.sizingMode === 'weight' && (a.nav ?? 0) !== (b.nav ?? 0)) return false;
+  // Positions saved without a size never match
+  const entered = (positions: Position[]) => positions.map(p => ({ ticker: p.ticker, amount: p.size ?? NaN }));
+  return samePositions(entered(a.positions), entered(b.positions), baseCurrency);
+}
@@ -0,0 +1,128 @@
+/**
+ * Portfolio Export
+ * Place in: frontend/app/lib/portfolioExport.ts
+ *
+ * CSV/JSON export of positions, and share links that carry positions in
+ * the URL fragment (never sent to the server) for another user to open.
+ */
+
+import type { Position } from './api';
+import { normalizeCurrency } from './currency';
+
+export interface ExportRow {
+  ticker: string;
+  amount: number;
+  provider_symbol: string | null;
+  exchange: string | null;
+  currency: string | null;
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface SharedPortfolio {
+  name: string;
+  positions: Position[];
+  baseCurrency?: string;
+}
+
+const CSV_COLUMNS: (keyof ExportRow)[] = ['ticker', 'amount', 'provider_symbol', 'exchange', 'currency'];
+const SHARE_PARAM = 'share';
+const SHARE_VERSION = 1;
+/** Keeps links comfortably under common URL length limits. */
+const MAX_SHARED_POSITIONS = 200;
+
+// Text starting with these is run as a formula by Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string | number | null): string {
+  const raw = value === null ? '' : String(value);
+  // Numbers are left alone so negative amounts stay numeric
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const lines = rows.map(r => CSV_COLUMNS.map(c => csvField(r[c])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+export function toJson(name: string, rows: ExportRow[]): string {
+  return JSON.stringify({ name, exported_at: new Date().toISOString(), positions: rows }, null, 2) + '\n';
+}
+
+/** "Energy pairs / Q3" → "energy-pairs-q3" */
+export function exportFilename(name: string, format: ExportFormat): string {
+  const slug = name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'portfolio';
+  return `${slug}.${format}`;
+}
+
+export function downloadFile(filename: string, content: string, format: ExportFormat) {
+  const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// =============================================================================
+// SHARE LINKS
+// =============================================================================
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+export function buildShareLink(baseUrl: string, shared: SharedPortfolio): string {
+  if (shared.positions.length > MAX_SHARED_POSITIONS) {
+    throw new Error(`Share links support up to ${MAX_SHARED_POSITIONS} positions. Export a file instead.`);
+  }
+  const payload = {
+    v: SHARE_VERSION,
+    n: shared.name,
+    p: shared.positions.map(p => (p.currency ? [p.ticker, p.amount, p.currency] : [p.ticker, p.amount])),
+    ...(shared.baseCurrency ? { b: shared.baseCurrency } : {}),
+  };
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = `${SHARE_PARAM}=${toBase64Url(JSON.stringify(payload))}`;
+  return url.toString();
+}
+
+/** Reads a share fragment ("#share=..."); null if absent or malformed. */
+export function parseShareHash(hash: string): SharedPortfolio | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  if (!encoded) return null;
+  try {
+    const payload = JSON.parse(fromBase64Url(encoded));
+    if (payload?.v !== SHARE_VERSION || !Array.isArray(payload.p)) return null;
+    // Links made before currencies were added carry [ticker, amount] only
+    const positions: Position[] = payload.p
+      .filter((p: unknown): p is [string, number, string?] =>
+        Array.isArray(p) && typeof p[0] === 'string' && p[0].trim() !== '' && Number.isFinite(p[1]) &&
+        (p[2] === undefined || typeof p[2] === 'string'))
+      .slice(0, MAX_SHARED_POSITIONS)
+      .map(([ticker, amount, currency]: [string, number, string?]) => {
+        const code = normalizeCurrency(currency);
+        return { ticker: ticker.trim(), amount, ...(code ? { currency: code } : {}) };
+      });
+    if (positions.length === 0) return null;
+    return {
+      name: typeof payload.n === 'string' ? payload.n.slice(0, 200) : '',
+      positions,
+      baseCurrency: (typeof payload.b === 'string' && normalizeCurrency(payload.b)) || undefined,
+    };
+  } catch {
+    return null;
+  }
+}
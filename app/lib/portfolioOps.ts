@@ -0,0 +1,137 @@
+/**
+ * Portfolio Transforms
+ * Place in: frontend/app/lib/portfolioOps.ts
+ *
+ * Pure operations on anything with an `amount` (editor rows or saved
+ * positions). Each returns a new array with amounts rounded to whole
+ * units (or `decimals` places), or throws an Error whose message can be
+ * shown to the user.
+ *
+ * Amounts need not be base-currency notionals: they may be in another
+ * currency, or be share counts or weights. `rateOf` gives the base-currency
+ * value of one unit of a row's amount, and targets and exposures are
+ * measured in those values. Amounts keep their own units.
+ */
+
+type Amounted = { amount: number };
+
+/** Base-currency value of one unit of the row's amount; undefined if unknown. */
+export type RateOf<T> = (row: T) => number | undefined;
+
+export interface TransformOptions<T> {
+  rateOf?: RateOf<T>;
+  decimals?: number;
+}
+
+const amountOf = (row: Amounted) => Number(row.amount || 0);
+
+const sameCurrency = () => 1;
+
+function baseAmounts<T extends Amounted>(rows: T[], rateOf: RateOf<T>): number[] {
+  let missing = 0;
+  const amounts = rows.map(r => {
+    const a = amountOf(r);
+    if (a === 0) return 0;
+    const rate = rateOf(r);
+    if (rate === undefined || !Number.isFinite(rate)) {
+      missing++;
+      return 0;
+    }
+    return a * rate;
+  });
+  if (missing > 0) throw new Error(`No price or FX rate available for ${missing} position${missing === 1 ? '' : 's'}`);
+  return amounts;
+}
+
+function exposures<T extends Amounted>(rows: T[], rateOf: RateOf<T>) {
+  let long = 0;
+  let short = 0;
+  for (const a of baseAmounts(rows, rateOf)) {
+    if (a > 0) long += a;
+    else short += -a;
+  }
+  return { long, short, gross: long + short, net: long - short };
+}
+
+function mapAmounts<T extends Amounted>(rows: T[], fn: (amount: number) => number, decimals = 0): T[] {
+  const factor = 10 ** decimals;
+  return rows.map(r => ({ ...r, amount: Math.round(fn(amountOf(r)) * factor) / factor || 0 }));
+}
+
+/**
+ * Flips signs only, so amounts need no rounding. A saved position's `size`
+ * (its shares or weight as entered) is flipped with its notional.
+ */
+export function invertAmounts<T extends Amounted & { size?: number }>(rows: T[]): T[] {
+  return rows.map(r => ({
+    ...r,
+    amount: -amountOf(r) || 0,
+    ...(r.size !== undefined ? { size: -r.size || 0 } : {}),
+  }));
+}
+
+export function scaleToGross<T extends Amounted>(
+  rows: T[],
+  target: number,
+  { rateOf = sameCurrency, decimals }: TransformOptions<T> = {}
+): T[] {
+  if (!(target > 0)) throw new Error('Target gross exposure must be positive');
+  const { gross } = exposures(rows, rateOf);
+  if (gross === 0) throw new Error('Add amounts before scaling');
+  return mapAmounts(rows, a => a * (target / gross), decimals);
+}
+
+/** Scales every leg by the same factor, so weights are preserved. */
+export function scaleToNet<T extends Amounted>(
+  rows: T[],
+  target: number,
+  { rateOf = sameCurrency, decimals }: TransformOptions<T> = {}
+): T[] {
+  const { net } = exposures(rows, rateOf);
+  if (net === 0) throw new Error('Net exposure is zero, so it cannot be scaled. Use gross instead.');
+  if (Math.sign(target) !== Math.sign(net)) {
+    throw new Error('Target net must have the same sign as the current net. Invert the portfolio first.');
+  }
+  return mapAmounts(rows, a => a * (target / net), decimals);
+}
+
+/** Resizes the short leg so it matches the long leg dollar for dollar (in base currency). */
+export function toDollarNeutral<T extends Amounted>(
+  rows: T[],
+  { rateOf = sameCurrency, decimals }: TransformOptions<T> = {}
+): T[] {
+  const { long, short } = exposures(rows, rateOf);
+  if (long === 0 || short === 0) throw new Error('Dollar-neutral needs both a long and a short leg');
+  return mapAmounts(rows, a => (a < 0 ? a * (long / short) : a), decimals);
+}
+
+/**
+ * Resizes the short leg so the portfolio's beta-weighted exposure is zero.
+ * `betaOf` must return a beta for every row with a non-zero amount.
+ */
+export function toBetaNeutral<T extends Amounted>(
+  rows: T[],
+  betaOf: (row: T) => number | undefined,
+  { rateOf = sameCurrency, decimals }: TransformOptions<T> = {}
+): T[] {
+  let longBeta = 0;
+  let shortBeta = 0;
+  const missing: T[] = [];
+  const amounts = baseAmounts(rows, rateOf);
+  for (const [i, r] of rows.entries()) {
+    const a = amounts[i];
+    if (a === 0) continue;
+    const beta = betaOf(r);
+    if (beta === undefined || !Number.isFinite(beta)) {
+      missing.push(r);
+      continue;
+    }
+    if (a > 0) longBeta += a * beta;
+    else shortBeta += a * beta;
+  }
+  if (missing.length > 0) throw new Error(`No beta available for ${missing.length} position${missing.length === 1 ? '' : 's'}`);
+  if (longBeta === 0 || shortBeta === 0) throw new Error('Beta-neutral needs both a long and a short leg with non-zero beta');
+  const factor = -longBeta / shortBeta;
+  if (factor <= 0) throw new Error('Long and short legs have betas of the same sign. They cannot be beta-neutralized by resizing.');
+  return mapAmounts(rows, a => (a < 0 ? a * factor : a), decimals);
+}
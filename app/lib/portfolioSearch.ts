@@ -0,0 +1,81 @@
+/**
+ * Portfolio Search
+ * Place in: frontend/app/lib/portfolioSearch.ts
+ *
+ * Filtering, sorting and folder grouping for the portfolio picker.
+ */
+
+import type { Portfolio } from './api';
+
+export type PortfolioSort = 'updated' | 'analyzed' | 'name';
+
+export const PORTFOLIO_SORT_LABELS: Record<PortfolioSort, string> = {
+  updated: 'Last updated',
+  analyzed: 'Last analyzed',
+  name: 'Name',
+};
+
+export interface PortfolioGroup {
+  folder: string | null;
+  portfolios: Portfolio[];
+}
+
+/** "Energy, pairs,,energy " → ["energy", "pairs"] */
+export function parseTags(input: string): string[] {
+  const tags = input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function collectTags(portfolios: Portfolio[]): string[] {
+  return [...new Set(portfolios.flatMap(p => p.tags ?? []))].sort();
+}
+
+export function collectFolders(portfolios: Portfolio[]): string[] {
+  return [...new Set(portfolios.map(p => p.folder).filter((f): f is string => !!f))].sort();
+}
+
+/**
+ * Every whitespace-separated term must appear in the name, description,
+ * folder, a tag or a ticker (case-insensitive).
+ */
+export function matchesQuery(portfolio: Portfolio, query: string): boolean {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [
+    portfolio.name,
+    portfolio.description ?? '',
+    portfolio.folder ?? '',
+    ...(portfolio.tags ?? []),
+    ...portfolio.positions.map(p => p.ticker),
+  ].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+/** lastAnalyzed maps portfolio id → ISO timestamp of its newest saved analysis. */
+export function sortPortfolios(
+  portfolios: Portfolio[],
+  sort: PortfolioSort,
+  lastAnalyzed: Record<string, string>
+): Portfolio[] {
+  const time = (iso: string | undefined) => (iso ? new Date(iso).getTime() : 0);
+  return portfolios.slice().sort((a, b) => {
+    if (sort === 'name') return a.name.localeCompare(b.name);
+    if (sort === 'analyzed') {
+      const diff = time(lastAnalyzed[b.id]) - time(lastAnalyzed[a.id]);
+      if (diff !== 0) return diff;
+    }
+    return time(b.updated_at) - time(a.updated_at);
+  });
+}
+
+/** Groups by folder (alphabetical), unfiled portfolios last. Order within a group is kept. */
+export function groupByFolder(portfolios: Portfolio[]): PortfolioGroup[] {
+  const groups = new Map<string | null, Portfolio[]>();
+  for (const p of portfolios) {
+    const folder = p.folder || null;
+    groups.set(folder, [...(groups.get(folder) ?? []), p]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)))
+    .map(([folder, list]) => ({ folder, portfolios: list }));
+}
@@ -0,0 +1,169 @@
+/**
+ * Position Import
+ * Place in: frontend/app/lib/positionImport.ts
+ *
+ * Parses "ticker, amount" blocks pasted from Excel (tab-separated) or the
+ * clipboard, and CSV/TSV files. A header row is optional; when present,
+ * the ticker, amount and (optional) currency columns are picked by name.
+ */
+
+import { normalizeCurrency } from './currency';
+
+export interface ImportedPosition {
+  query: string;
+  /** Unrounded; the editor rounds it for its sizing mode. */
+  amount: number;
+  /** From a currency column, when the block has one. */
+  currency?: string;
+}
+
+export interface SkippedLine {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  positions: ImportedPosition[];
+  skipped: SkippedLine[];
+}
+
+export const IMPORT_FILE_ACCEPT = '.csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain';
+
+const TICKER_HEADERS = ['ticker', 'symbol', 'instrument', 'security', 'name', 'asset'];
+const AMOUNT_HEADERS = ['amount', 'notional', 'value', 'usd', 'exposure', 'position', 'size', 'market value', 'shares', 'quantity', 'qty', 'weight'];
+const CURRENCY_HEADERS = ['currency', 'ccy', 'curr'];
+
+const SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, mm: 1e6, b: 1e9, bn: 1e9 };
+
+/** "$1,250,000" → 1250000, "(500k)" → -500000, "-2.5m" → -2500000; null if not a number. */
+export function parseAmount(raw: string): number | null {
+  let text = raw.trim().replace(/[$€£%\s]/g, '').replace(/,/g, '');
+  if (!text) return null;
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  const match = /^([+-]?\d*\.?\d+)([a-z]*)$/i.exec(text);
+  if (!match) return null;
+  const multiplier = match[2] ? SUFFIXES[match[2].toLowerCase()] : 1;
+  if (multiplier === undefined) return null;
+  const value = sign * Number(match[1]) * multiplier;
+  return Number.isFinite(value) ? value : null;
+}
+
+function detectDelimiter(lines: string[]): string {
+  const sample = lines.slice(0, 10);
+  if (sample.some(l => l.includes('\t'))) return '\t';
+  if (sample.some(l => l.includes(';'))) return ';';
+  return ',';
+}
+
+/** Splits one line, honouring double-quoted fields ("1,000" stays one field). */
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Unquoted "AAPL,1,000,000" splits into thousands groups; rejoin them when
+ * every field after the first group is exactly three digits.
+ */
+function rejoinThousands(fields: string[]): string[] {
+  const rest = fields.slice(1);
+  if (rest.length < 2 || !/^[-+($]*\d{1,3}$/.test(rest[0])) return fields;
+  const tail = rest.slice(1);
+  if (!tail.every((f, i) => (i === tail.length - 1 ? /^\d{3}(\.\d+)?\)?$/ : /^\d{3}$/).test(f))) return fields;
+  return [fields[0], rest.join(',')];
+}
+
+/** Earlier names win, so "Name, Ticker" picks the ticker column. */
+function findColumn(header: string[], names: string[]): number {
+  const normalized = header.map(h => h.toLowerCase().replace(/[^a-z ]/g, '').trim());
+  for (const name of names) {
+    const index = normalized.indexOf(name);
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+export function parsePositions(text: string): ImportResult {
+  const lines = text.replace(/^﻿/, '').split(/\r\n|\r|\n/);
+  const nonEmpty = lines.filter(l => l.trim());
+  const delimiter = detectDelimiter(nonEmpty);
+
+  let tickerCol = 0;
+  let amountCol = 1;
+  let currencyCol = -1;
+  let hasHeader = false;
+
+  const firstIndex = lines.findIndex(l => l.trim());
+  if (firstIndex >= 0) {
+    const header = splitLine(lines[firstIndex], delimiter);
+    const t = findColumn(header, TICKER_HEADERS);
+    const a = findColumn(header, AMOUNT_HEADERS);
+    if (t >= 0 && a >= 0 && t !== a) {
+      hasHeader = true;
+      tickerCol = t;
+      amountCol = a;
+      currencyCol = findColumn(header, CURRENCY_HEADERS);
+    }
+  }
+
+  const positions: ImportedPosition[] = [];
+  const skipped: SkippedLine[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.trim() || (hasHeader && i === firstIndex)) return;
+    let fields = splitLine(line, delimiter);
+    if (!hasHeader && delimiter === ',') fields = rejoinThousands(fields);
+
+    const query = fields[tickerCol] ?? '';
+    const rawAmount = fields[amountCol] ?? '';
+    if (!query) {
+      skipped.push({ line: i + 1, text: line, reason: 'Missing ticker' });
+      return;
+    }
+    const amount = parseAmount(rawAmount);
+    if (amount === null) {
+      skipped.push({ line: i + 1, text: line, reason: rawAmount ? `"${rawAmount}" is not an amount` : 'Missing amount' });
+      return;
+    }
+    const currency = currencyCol >= 0 ? normalizeCurrency(fields[currencyCol]) : null;
+    positions.push({ query, amount, ...(currency ? { currency } : {}) });
+  });
+
+  return { positions, skipped };
+}
+
+/** Reads a dropped or picked file; rejects binary spreadsheets we cannot parse here. */
+export async function readPositionsFile(file: File): Promise<string> {
+  if (/\.(xlsx|xlsm|xls|numbers|ods)$/i.test(file.name)) {
+    throw new Error('Spreadsheet files cannot be read directly. Copy the cells and paste them, or save as CSV.');
+  }
+  return file.text();
+}
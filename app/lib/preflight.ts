@@ -0,0 +1,143 @@
+/**
+ * Pre-flight Validation
+ * Place in: frontend/app/lib/preflight.ts
+ *
+ * Checks the editor rows before /analyze sees them. Errors block the run;
+ * warnings are shown but the run can go ahead. Row issues are annotated
+ * inline, portfolio issues above the Run button.
+ */
+
+import { formatCurrency } from './format';
+import { normalizeCurrency } from './currency';
+import type { SizingMode } from './sizing';
+import type { AnalysisMode } from './analysisMode';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface Issue {
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface PreflightRow {
+  id: string;
+  query: string;
+  resolvedSymbol: string | null;
+  /** Size as entered, in the sizing mode. */
+  amount: number;
+  /** Currency of the row's notional. */
+  currency: string;
+  /** Notional in `currency`; null when its price or the NAV is missing. */
+  notional: number | null;
+  /** Rate from `currency` to the base currency; undefined when unknown. */
+  rate: number | undefined;
+}
+
+export interface PreflightContext {
+  baseCurrency: string;
+  sizingMode: SizingMode;
+  analysisMode: AnalysisMode;
+  /** Prices or FX rates still loading; their checks wait rather than fail. */
+  pricesLoading: boolean;
+  pricesFailed: boolean;
+  fxLoading: boolean;
+  fxFailed: boolean;
+}
+
+export interface PreflightResult {
+  /** Row id → issues, for rows that have any. */
+  rows: Record<string, Issue[]>;
+  portfolio: Issue[];
+  hasErrors: boolean;
+  /** Some checks are waiting on prices or rates. */
+  pending: boolean;
+}
+
+/** One leg this many times the other counts as unbalanced. */
+const UNBALANCED_RATIO = 3;
+
+export function runPreflight(rows: PreflightRow[], context: PreflightContext): PreflightResult {
+  const { baseCurrency, sizingMode, analysisMode } = context;
+  const issues: Record<string, Issue[]> = {};
+  const portfolio: Issue[] = [];
+  let pending = false;
+  let long = 0;
+  let short = 0;
+
+  const add = (id: string, severity: IssueSeverity, message: string) => {
+    (issues[id] ??= []).push({ severity, message });
+  };
+
+  const bySymbol = new Map<string, number>();
+  rows.forEach(r => {
+    if (r.resolvedSymbol) bySymbol.set(r.resolvedSymbol, (bySymbol.get(r.resolvedSymbol) ?? 0) + 1);
+  });
+
+  for (const r of rows) {
+    const amount = Number(r.amount || 0);
+
+    if (!r.resolvedSymbol) {
+      if (amount !== 0) add(r.id, 'error', r.query.trim() ? 'Select a ticker for this amount' : 'Enter a ticker for this amount');
+      continue;
+    }
+    if ((bySymbol.get(r.resolvedSymbol) ?? 0) > 1) {
+      add(r.id, 'error', `${r.resolvedSymbol} is in more than one row. Combine them into one position.`);
+    }
+    if (amount === 0) {
+      add(r.id, 'warning', 'Zero amount. This row is left out of the analysis.');
+      continue;
+    }
+    if (analysisMode === 'long_only' && amount < 0) {
+      add(r.id, 'error', 'A long-only basket cannot hold short positions');
+    }
+
+    if (r.notional === null) {
+      if (sizingMode === 'weight') add(r.id, 'error', 'Enter the portfolio NAV to convert this weight');
+      else if (context.pricesLoading) pending = true;
+      else add(r.id, 'error', context.pricesFailed ? 'Latest prices could not be loaded' : `No latest price for ${r.resolvedSymbol}`);
+      continue;
+    }
+
+    if (!normalizeCurrency(r.currency)) {
+      add(r.id, 'error', `"${r.currency}" is not a currency code`);
+      continue;
+    }
+    if (r.rate === undefined) {
+      if (context.fxLoading) pending = true;
+      else if (context.fxFailed) add(r.id, 'warning', `FX rates could not be loaded, so ${r.currency} is left out of the exposure totals`);
+      else add(r.id, 'error', `Unknown currency: no ${r.currency} to ${baseCurrency} rate`);
+      continue;
+    }
+
+    const value = r.notional * r.rate;
+    if (value > 0) long += value;
+    else short -= value;
+  }
+
+  const held = rows.filter(r => r.resolvedSymbol && Number(r.amount || 0) !== 0).length;
+  if (held === 0) {
+    portfolio.push({ severity: 'error', message: 'Add at least one position with a ticker and an amount.' });
+  } else if (analysisMode === 'single' && held > 1) {
+    portfolio.push({
+      severity: 'error',
+      message: `Single-instrument mode analyzes one position, but ${held} are entered. Remove the others or switch mode.`,
+    });
+  } else if (analysisMode === 'long_short' && !pending && (long > 0 || short > 0)) {
+    if (short === 0) {
+      portfolio.push({ severity: 'warning', message: 'No short leg. Long/short diagnostics will only see the long side. Use the long-only mode if this is intended.' });
+    } else if (long === 0) {
+      portfolio.push({ severity: 'warning', message: 'No long leg. Long/short diagnostics will only see the short side.' });
+    } else if (Math.max(long, short) / Math.min(long, short) >= UNBALANCED_RATIO) {
+      const ratio = (Math.max(long, short) / Math.min(long, short)).toFixed(1);
+      portfolio.push({
+        severity: 'warning',
+        message: `Legs are unbalanced: the ${long > short ? 'long' : 'short'} leg is ${ratio}× the other (net ${formatCurrency(long - short, baseCurrency)}).`,
+      });
+    }
+  }
+
+  const hasErrors = portfolio.some(i => i.severity === 'error') ||
+    Object.values(issues).some(list => list.some(i => i.severity === 'error'));
+
+  return { rows: issues, portfolio, hasErrors, pending };
+}
@@ -0,0 +1,47 @@
+/**
+ * History Retention
+ * Place in: frontend/app/lib/retention.ts
+ *
+ * Decides which auto-saved analyses fall outside the user's retention
+ * policy. Only the user's own runs are considered, since the policy is a
+ * local setting and workspace runs are shared. Pinned (manually saved)
+ * analyses are never selected.
+ */
+
+import type { AnalysisSummary } from './api';
+import type { AutoSaveSettings } from '../hooks/useSettings';
+
+const DAY_MS = 86400000;
+
+export function selectExpiredAnalyses(
+  analyses: AnalysisSummary[],
+  policy: Pick<AutoSaveSettings, 'keepLastPerPortfolio' | 'deleteAfterDays'>,
+  userId: string,
+  now: number = Date.now()
+): AnalysisSummary[] {
+  const candidates = analyses.filter(a => a.user_id === userId && a.auto_saved && !a.is_pinned);
+  const expired = new Set<string>();
+
+  if (policy.deleteAfterDays !== null && policy.deleteAfterDays > 0) {
+    const cutoff = now - policy.deleteAfterDays * DAY_MS;
+    for (const a of candidates) {
+      if (new Date(a.created_at).getTime() < cutoff) expired.add(a.id);
+    }
+  }
+
+  if (policy.keepLastPerPortfolio !== null && policy.keepLastPerPortfolio > 0) {
+    const byPortfolio = new Map<string, AnalysisSummary[]>();
+    for (const a of candidates) {
+      const key = a.portfolio_id ?? `name:${a.portfolio_name}`;
+      byPortfolio.set(key, [...(byPortfolio.get(key) ?? []), a]);
+    }
+    for (const group of byPortfolio.values()) {
+      group
+        .sort((x, y) => new Date(y.created_at).getTime() - new Date(x.created_at).getTime())
+        .slice(policy.keepLastPerPortfolio)
+        .forEach(a => expired.add(a.id));
+    }
+  }
+
+  return candidates.filter(a => expired.has(a.id));
+}
@@ -0,0 +1,103 @@
+/**
+ * Position Sizing
+ * Place in: frontend/app/lib/sizing.ts
+ *
+ * A portfolio's positions are entered in one sizing mode: a signed
+ * notional, a signed share count, or a signed weight as a percentage of
+ * NAV. Everything downstream (exposures, transforms, /analyze) works on
+ * the notional each entry converts to.
+ */
+
+import { formatCurrency } from './format';
+import { FxRates, rateToBase } from './currency';
+
+export type SizingMode = 'notional' | 'shares' | 'weight';
+
+export const SIZING_MODES: SizingMode[] = ['notional', 'shares', 'weight'];
+
+export const SIZING_MODE_LABELS: Record<SizingMode, string> = {
+  notional: 'Notional',
+  shares: 'Shares',
+  weight: 'Weight %',
+};
+
+/** Whole currency units and whole shares; weights to a hundredth of a percent. */
+export const SIZE_DECIMALS: Record<SizingMode, number> = {
+  notional: 0,
+  shares: 0,
+  weight: 2,
+};
+
+/** Latest price of a ticker, in its quote currency. */
+export interface Quote {
+  price: number;
+  currency: string;
+}
+
+export interface SizingContext {
+  mode: SizingMode;
+  prices: Record<string, Quote>;
+  /** Net asset value in the base currency; weights are a percentage of it. */
+  nav: number;
+  baseCurrency: string;
+}
+
+export interface SizedPosition {
+  /** Notional in `currency`; null when the price or NAV it needs is missing. */
+  notional: number | null;
+  currency: string;
+  /** Notional per unit of the entered size (1 for notional, the price for shares). */
+  unitValue: number | null;
+}
+
+type Sizable = { resolvedSymbol: string | null; amount: number; currency: string };
+
+export function sizeOf(row: Sizable, context: SizingContext): SizedPosition {
+  const amount = Number(row.amount || 0);
+  switch (context.mode) {
+    case 'notional':
+      return { notional: amount, currency: row.currency, unitValue: 1 };
+    case 'shares': {
+      const quote = row.resolvedSymbol ? context.prices[row.resolvedSymbol] : undefined;
+      if (!quote || !(quote.price > 0)) return { notional: null, currency: row.currency, unitValue: null };
+      return { notional: amount * quote.price, currency: quote.currency, unitValue: quote.price };
+    }
+    case 'weight': {
+      if (!(context.nav > 0)) return { notional: null, currency: context.baseCurrency, unitValue: null };
+      const unitValue = context.nav / 100;
+      return { notional: amount * unitValue, currency: context.baseCurrency, unitValue };
+    }
+  }
+}
+
+export function roundSize(value: number, mode: SizingMode): number {
+  const factor = 10 ** SIZE_DECIMALS[mode];
+  return Math.round(value * factor) / factor || 0;
+}
+
+/**
+ * Re-expresses a row's size in another mode, going through its notional in
+ * base currency. Null when a price, NAV or FX rate either side needs is missing.
+ */
+export function convertSize(row: Sizable, from: SizingContext, to: SizingContext, rates: FxRates): number | null {
+  if (Number(row.amount || 0) === 0) return 0;
+  const source = sizeOf(row, from);
+  const target = sizeOf({ ...row, amount: 1 }, to);
+  if (source.notional === null || target.unitValue === null) return null;
+  const sourceRate = rateToBase(source.currency, from.baseCurrency, rates);
+  const targetRate = rateToBase(target.currency, to.baseCurrency, rates);
+  if (sourceRate === undefined || targetRate === undefined) return null;
+  return roundSize((source.notional * sourceRate) / (target.unitValue * targetRate), to.mode);
+}
+
+/** "$1,250,000", "1,200 sh" or "2.5%" */
+export function formatSize(value: number, mode: SizingMode, currency: string): string {
+  switch (mode) {
+    case 'notional':
+      return formatCurrency(value, currency);
+    case 'shares':
+      return `${value.toLocaleString('en-US')} sh`;
+    case 'weight':
+      return `${value.toLocaleString('en-US', { maximumFractionDigits: SIZE_DECIMALS.weight })}%`;
+  }
+}
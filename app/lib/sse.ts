@@ -0,0 +1,136 @@
+/**
+ * Server-Sent Events over fetch
+ * Place in: frontend/app/lib/sse.ts
+ *
+ * The browser EventSource cannot send an Authorization header, so streams
+ * are opened through authFetch and parsed here. connectEventStream keeps a
+ * stream open with exponential backoff and reports whether it is live so
+ * callers can fall back to polling while it is not.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SseMessage {
+  event: string;
+  data: string;
+  id: string | null;
+}
+
+export type StreamStatus = 'connecting' | 'live' | 'down';
+
+export interface EventStreamOptions {
+  /** Opens the stream. Receives the last seen event id for resumption. */
+  open: (lastEventId: string | null, signal: AbortSignal) => Promise<Response>;
+  onMessage: (message: SseMessage) => void;
+  onStatus?: (status: StreamStatus) => void;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/** Reads an event-stream body to the end, emitting one SseMessage per event. */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SseMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+  let id: string | null = null;
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      onMessage({ event: event || 'message', data: data.join('\n'), id });
+    }
+    event = '';
+    data = [];
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.search(/\r\n|\r|\n/)) >= 0) {
+      // A lone trailing CR may be the first half of a CRLF split across chunks
+      if (buffer[newline] === '\r' && newline === buffer.length - 1) break;
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + (buffer.startsWith('\r\n', newline) ? 2 : 1));
+
+      if (line === '') {
+        dispatch();
+        continue;
+      }
+      if (line.startsWith(':')) continue; // comment / keep-alive
+
+      const colon = line.indexOf(':');
+      const field = colon >= 0 ? line.slice(0, colon) : line;
+      const raw = colon >= 0 ? line.slice(colon + 1) : '';
+      const value = raw.startsWith(' ') ? raw.slice(1) : raw;
+
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+      else if (field === 'id') id = value;
+    }
+  }
+}
+
+// =============================================================================
+// RECONNECTING CONNECTION
+// =============================================================================
+
+/**
+ * Keeps an event stream open until the returned close() is called.
+ * Reconnects with exponential backoff (plus jitter) after errors or when
+ * the server ends the stream.
+ */
+export function connectEventStream({
+  open,
+  onMessage,
+  onStatus,
+  minBackoffMs = 1000,
+  maxBackoffMs = 60000,
+}: EventStreamOptions): () => void {
+  const controller = new AbortController();
+  let lastEventId: string | null = null;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = async () => {
+    if (controller.signal.aborted) return;
+    onStatus?.('connecting');
+    try {
+      const res = await open(lastEventId, controller.signal);
+      if (!res.body) throw new Error('Event stream has no body');
+      attempt = 0;
+      onStatus?.('live');
+      await readEventStream(res.body, (message) => {
+        if (message.id) lastEventId = message.id;
+        onMessage(message);
+      });
+    } catch {
+      // Fall through to reconnect
+    }
+    if (controller.signal.aborted) return;
+
+    onStatus?.('down');
+    const backoff = Math.min(maxBackoffMs, minBackoffMs * 2 ** attempt);
+    attempt += 1;
+    retryTimer = setTimeout(run, backoff / 2 + Math.random() * (backoff / 2));
+  };
+
+  run();
+
+  return () => {
+    controller.abort();
+    if (retryTimer) clearTimeout(retryTimer);
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Ticker Resolver
+ * Place in: frontend/app/lib/tickerResolver.ts
+ *
+ * Wraps the /resolve endpoint with an LRU cache (in memory, mirrored to
+ * sessionStorage so it survives reloads), shares one request between
+ * callers asking for the same query, and waits out 429 responses instead
+ * of hammering the server.
+ */
+
+import { ApiError } from './api';
+import type { ResolveResponse } from './api';
+
+type ResolveFn = (query: string, options?: { signal?: AbortSignal }) => Promise<ResolveResponse>;
+
+export interface TickerResolver {
+  resolve: (query: string, signal?: AbortSignal) => Promise<ResolveResponse>;
+  /** Cached result, if any, without touching the network. */
+  peek: (query: string) => ResolveResponse | undefined;
+}
+
+const STORAGE_KEY = 'bavella:resolve-cache';
+const MAX_ENTRIES = 300;
+const TTL_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 4;
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+type CacheEntry = { at: number; response: ResolveResponse };
+
+/** "  apple   inc " → "apple inc" */
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function abortError(): Error {
+  return new DOMException('Aborted', 'AbortError');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Lets one caller stop waiting without cancelling the shared request. */
+function withSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function loadStored(): Map<string, CacheEntry> {
+  try {
+    const raw = window.sessionStorage.getItem(STORAGE_KEY);
+    const entries: [string, CacheEntry][] = raw ? JSON.parse(raw) : [];
+    const now = Date.now();
+    return new Map(entries.filter(([, e]) => now - e.at < TTL_MS));
+  } catch {
+    return new Map();
+  }
+}
+
+export function createTickerResolver(resolveRemote: ResolveFn): TickerResolver {
+  // Map iteration order doubles as recency order: oldest first
+  const cache = typeof window === 'undefined' ? new Map<string, CacheEntry>() : loadStored();
+  const inFlight = new Map<string, Promise<ResolveResponse>>();
+  let blockedUntil = 0;
+  let backoffMs = MIN_BACKOFF_MS;
+
+  const persist = () => {
+    try {
+      window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify([...cache.entries()]));
+    } catch {
+      // Storage full or disabled; the in-memory cache still works
+    }
+  };
+
+  const peek = (query: string) => {
+    const key = normalizeQuery(query);
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.at >= TTL_MS) {
+      cache.delete(key);
+      return undefined;
+    }
+    cache.delete(key);
+    cache.set(key, entry);
+    return entry.response;
+  };
+
+  const store = (key: string, response: ResolveResponse) => {
+    cache.delete(key);
+    cache.set(key, { at: Date.now(), response });
+    while (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+    persist();
+  };
+
+  // One 429 pauses every lookup until Retry-After (or the backoff) passes
+  const fetchWithBackoff = async (query: string): Promise<ResolveResponse> => {
+    for (let attempt = 1; ; attempt++) {
+      const wait = blockedUntil - Date.now();
+      if (wait > 0) await sleep(wait);
+      try {
+        const response = await resolveRemote(query);
+        backoffMs = MIN_BACKOFF_MS;
+        return response;
+      } catch (e) {
+        if (!(e instanceof ApiError && e.isRateLimited) || attempt >= MAX_ATTEMPTS) throw e;
+        blockedUntil = Math.max(blockedUntil, e.retryAt ?? Date.now() + backoffMs);
+        backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS);
+      }
+    }
+  };
+
+  const resolve = (query: string, signal?: AbortSignal) => {
+    const key = normalizeQuery(query);
+    const cached = peek(key);
+    if (cached) return Promise.resolve(cached);
+
+    let request = inFlight.get(key);
+    if (!request) {
+      request = fetchWithBackoff(query.trim())
+        .then(response => {
+          store(key, response);
+          return response;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, request);
+    }
+    return withSignal(request, signal);
+  };
+
+  return { resolve, peek };
+}
@@ -0,0 +1,59 @@
+/**
+ * Workspaces
+ * Place in: frontend/app/lib/workspace.ts
+ *
+ * A workspace is either the user's personal space or a Clerk organization.
+ * Portfolios, analyses and alerts belong to the active workspace; the
+ * member's role decides what they can change.
+ */
+
+export type WorkspaceRole = 'viewer' | 'analyst' | 'admin';
+
+export interface Workspace {
+  /** Clerk organization id; null for the personal workspace. */
+  id: string | null;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspacePermissions {
+  /** Save and update portfolios, save analyses, edit alert rules and tracking. */
+  canEdit: boolean;
+  /** Delete portfolios, analyses and alerts shared with the team. */
+  canDelete: boolean;
+}
+
+export const PERSONAL_WORKSPACE: Workspace = { id: null, name: 'Personal', role: 'admin' };
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  viewer: 'Viewer',
+  analyst: 'Analyst',
+  admin: 'Admin',
+};
+
+const PERMISSIONS: Record<WorkspaceRole, WorkspacePermissions> = {
+  viewer: { canEdit: false, canDelete: false },
+  analyst: { canEdit: true, canDelete: false },
+  admin: { canEdit: true, canDelete: true },
+};
+
+/**
+ * Maps a Clerk organization role ("org:admin", "org:analyst", ...) to a
+ * workspace role. Clerk's built-in "org:member" counts as analyst; anything
+ * unrecognised gets viewer access.
+ */
+export function toWorkspaceRole(orgRole: string | null | undefined): WorkspaceRole {
+  switch (orgRole) {
+    case 'org:admin':
+      return 'admin';
+    case 'org:analyst':
+    case 'org:member':
+      return 'analyst';
+    default:
+      return 'viewer';
+  }
+}
+
+export function workspacePermissions(role: WorkspaceRole): WorkspacePermissions {
+  return PERMISSIONS[role];
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useCallback, useMemo } from "react";
 import Image from "next/image";
 import {
   SignedOut,
@@ -7,8 +8,10 @@ import {
   SignInButton,
   SignUpButton,
   useAuth,
+  useOrganization,
 } from "@clerk/nextjs";
 import AnalysisApp from "./components/AnalysisApp";
+import { PERSONAL_WORKSPACE, Workspace, toWorkspaceRole } from "./lib/workspace";
 
 export default function Page() {
   return (
@@ -65,15 +68,27 @@ function LandingPage() {
  * Authenticated app wrapper - provides auth context to AnalysisApp
  */
 function AuthenticatedApp() {
-  const { getToken } = useAuth();
+  const { getToken, orgId, orgRole, userId } = useAuth();
+  const { organization } = useOrganization();
 
   /**
-   * Authenticated fetch wrapper - automatically includes Clerk JWT
+   * Active Clerk organization as a workspace; personal when none is active.
+   * Clerk issues org-scoped tokens once the switcher changes organization.
    */
-  async function authFetch(
+  const workspace = useMemo<Workspace>(() => (
+    orgId
+      ? { id: orgId, name: organization?.name ?? "Team", role: toWorkspaceRole(orgRole) }
+      : PERSONAL_WORKSPACE
+  ), [orgId, orgRole, organization?.name]);
+
+  /**
+   * Authenticated fetch wrapper - automatically includes Clerk JWT.
+   * Memoized so the API clients built from it stay stable across renders.
+   */
+  const authFetch = useCallback(async (
     url: string,
     options: RequestInit = {}
-  ): Promise<Response> {
+  ): Promise<Response> => {
     const headers = new Headers(options.headers);
 
     // Get fresh token from Clerk
@@ -82,16 +97,17 @@ function AuthenticatedApp() {
       headers.set("Authorization", `Bearer ${token}`);
     }
 
-    // Set content-type for JSON bodies
-    if (options.body && !headers.has("Content-Type")) {
+    // Set content-type for JSON bodies. Multipart (FormData) and other
+    // binary bodies must be left alone so the browser can add the boundary.
+    if (typeof options.body === "string" && !headers.has("Content-Type")) {
       headers.set("Content-Type", "application/json");
     }
 
     return fetch(url, { ...options, headers });
-  }
+  }, [getToken]);
 
   // AnalysisApp handles its own header/footer/UI
-  return <AnalysisApp authFetch={authFetch} />;
+  return <AnalysisApp authFetch={authFetch} workspace={workspace} userId={userId ?? null} />;
 }
 
 /**
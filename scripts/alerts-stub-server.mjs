@@ -0,0 +1,125 @@
+/**
+ * Alerts stub server
+ * Place in: frontend/scripts/alerts-stub-server.mjs
+ *
+ * Minimal stand-in for the backend's alert endpoints, for exercising the
+ * real-time alerts flow without the API:
+ *
+ *   node scripts/alerts-stub-server.mjs [port] [intervalSeconds]
+ *   NEXT_PUBLIC_API_BASE=http://localhost:8787 npm run dev
+ *
+ * GET /api/alerts/stream emits one `alert` event every interval (every
+ * third one critical) and a keep-alive comment every 15s. Kill the process
+ * and restart it to watch the client back off, poll, and reconnect.
+ */
+
+import http from 'node:http';
+
+const port = Number(process.argv[2] || 8787);
+const intervalMs = Number(process.argv[3] || 5) * 1000;
+
+const TYPES = ['buy', 'sell', 'regime_change', 'drawdown', 'zscore_extreme'];
+const alerts = [];
+let seq = 0;
+
+function makeAlert() {
+  seq += 1;
+  const alertType = TYPES[seq % TYPES.length];
+  return {
+    id: `stub-${seq}`,
+    user_id: 'stub-user',
+    portfolio_id: 'stub-portfolio',
+    portfolio_name: 'Stub Portfolio',
+    alert_type: alertType,
+    severity: seq % 3 === 0 ? 'critical' : seq % 2 === 0 ? 'warning' : 'info',
+    signal_date: new Date().toISOString().slice(0, 10),
+    message: `Stub ${alertType.replace('_', ' ')} alert #${seq}`,
+    is_read: false,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function cors(res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Last-Event-ID, X-Workspace-Id');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  cors(res);
+  const url = new URL(req.url, `http://localhost:${port}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/alerts/stream') {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    const emit = setInterval(() => {
+      const alert = makeAlert();
+      alerts.unshift(alert);
+      res.write(`id: ${alert.id}\nevent: alert\ndata: ${JSON.stringify(alert)}\n\n`);
+      console.log(`emitted ${alert.id} (${alert.severity} ${alert.alert_type})`);
+    }, intervalMs);
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+    req.on('close', () => {
+      clearInterval(emit);
+      clearInterval(keepAlive);
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/alerts') {
+    sendJson(res, 200, { alerts, unread_count: alerts.filter(a => !a.is_read).length });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/alerts/mark-all-read') {
+    alerts.forEach(a => { a.is_read = true; });
+    sendJson(res, 200, {});
+    return;
+  }
+
+  const match = url.pathname.match(/^\/api\/alerts\/([^/]+)$/);
+  if (match && (req.method === 'PATCH' || req.method === 'DELETE')) {
+    const index = alerts.findIndex(a => a.id === match[1]);
+    if (index < 0) {
+      sendJson(res, 404, { detail: 'Alert not found' });
+      return;
+    }
+    if (req.method === 'DELETE') alerts.splice(index, 1);
+    else alerts[index].is_read = true;
+    sendJson(res, 200, {});
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/portfolios') {
+    sendJson(res, 200, { portfolios: [] });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/analyses') {
+    sendJson(res, 200, { analyses: [], total: 0 });
+    return;
+  }
+
+  sendJson(res, 404, { detail: `Not implemented in stub: ${req.method} ${url.pathname}` });
+});
+
+server.listen(port, () => {
+  console.log(`Alerts stub listening on http://localhost:${port} (event every ${intervalMs / 1000}s)`);
+});